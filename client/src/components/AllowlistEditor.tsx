@@ -0,0 +1,115 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { validateAllowPattern } from "@shared/textlint/allowlist";
+import { RULE_CATALOG } from "@shared/textlint/catalog";
+import { DICTIONARY_RULE_ID } from "@shared/textlint/dictionary";
+import type { AllowlistEntry } from "@shared/textlint/types";
+import { Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+interface AllowlistEditorProps {
+  value: AllowlistEntry[];
+  onChange: (allowlist: AllowlistEntry[]) => void;
+}
+
+function parseRuleIds(input: string): string[] {
+  return input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .filter((ruleId, index, ruleIds) => ruleIds.indexOf(ruleId) === index);
+}
+
+/**
+ * Editor for terms that should never be reported.
+ * A term is a plain string or a `/pattern/flags` regex, optionally limited to some rules.
+ */
+export function AllowlistEditor({ value, onChange }: AllowlistEditorProps) {
+  const [pattern, setPattern] = useState("");
+  const [ruleIdsInput, setRuleIdsInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const ruleIds = parseRuleIds(ruleIdsInput);
+    const unknown = ruleIds.filter(
+      ruleId =>
+        ruleId !== DICTIONARY_RULE_ID &&
+        !RULE_CATALOG.some(rule => rule.id === ruleId)
+    );
+    const message =
+      validateAllowPattern(pattern) ??
+      (unknown.length > 0
+        ? `不明なルールIDです: ${unknown.join(", ")}`
+        : undefined);
+    if (message) {
+      setError(message);
+      return;
+    }
+
+    onChange([...value, { pattern, ruleIds }]);
+    setPattern("");
+    setRuleIdsInput("");
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={pattern}
+          onChange={e => setPattern(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="語 または /正規表現/"
+          aria-invalid={!!error}
+          className="h-8 font-mono"
+        />
+        <Input
+          value={ruleIdsInput}
+          onChange={e => setRuleIdsInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="ルールID（空ならすべて）"
+          className="h-8"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={!pattern}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          追加
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {value.length > 0 && (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {value.map((entry, index) => (
+            <li
+              key={`${entry.pattern}-${index}`}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm"
+            >
+              <span className="font-mono break-all">{entry.pattern}</span>
+              <span className="ml-auto flex-shrink-0 text-xs text-muted-foreground">
+                {entry.ruleIds.length > 0
+                  ? entry.ruleIds.join(", ")
+                  : "すべてのルール"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0"
+                aria-label={`${entry.pattern} を許可リストから削除`}
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RULE_CATALOG } from "@shared/textlint/catalog";
+import { validateCustomRule } from "@shared/textlint/custom-rules";
+import { DICTIONARY_RULE_ID } from "@shared/textlint/dictionary";
+import type { SeverityName } from "@shared/textlint/severity";
+import type { CustomRule } from "@shared/textlint/types";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+const SEVERITY_LABELS: Record<SeverityName, string> = {
+  error: "エラー",
+  warning: "警告",
+  info: "情報",
+};
+
+const BUILT_IN_RULE_IDS = [
+  ...RULE_CATALOG.map(rule => rule.id),
+  DICTIONARY_RULE_ID,
+];
+
+const EMPTY_RULE: CustomRule = {
+  id: "",
+  pattern: "",
+  message: "",
+  severity: "warning",
+};
+
+interface CustomRuleEditorProps {
+  value: CustomRule[];
+  onChange: (rules: CustomRule[]) => void;
+  /** Current severity of each rule, or "off" when it is disabled */
+  severities: Record<string, SeverityName | "off">;
+  onSeverityChange: (ruleId: string, value: SeverityName | "off") => void;
+}
+
+/**
+ * Editor for team-specific rules that report a string or `/regex/` with a message template.
+ * Rules are validated before saving, so an invalid regex never reaches the linter.
+ */
+export function CustomRuleEditor({
+  value,
+  onChange,
+  severities,
+  onSeverityChange,
+}: CustomRuleEditorProps) {
+  const [draft, setDraft] = useState<CustomRule>(EMPTY_RULE);
+  // Id of the rule being edited; ids are fixed once saved because settings refer to them
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<CustomRule>) =>
+    setDraft(prev => ({ ...prev, ...changes }));
+
+  const resetForm = () => {
+    setDraft(EMPTY_RULE);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const { replacement, ...rest } = draft;
+    const rule: CustomRule = { ...rest, ...(replacement && { replacement }) };
+    const reservedIds = [
+      ...BUILT_IN_RULE_IDS,
+      ...value.map(r => r.id).filter(id => id !== editingId),
+    ];
+    const message = validateCustomRule(rule, reservedIds);
+    if (message) {
+      setError(message);
+      return;
+    }
+
+    onChange(
+      editingId === null
+        ? [...value, rule]
+        : value.map(r => (r.id === editingId ? rule : r))
+    );
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-md border border-border p-3">
+        <div className="space-y-1">
+          <Label htmlFor="custom-rule-id" className="text-xs">
+            ルールID
+          </Label>
+          <Input
+            id="custom-rule-id"
+            value={draft.id}
+            onChange={e => updateDraft({ id: e.target.value })}
+            disabled={editingId !== null}
+            placeholder="no-todo-comment"
+            className="h-8 font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="custom-rule-severity" className="text-xs">
+            既定の重要度
+          </Label>
+          <Select
+            value={draft.severity}
+            onValueChange={severity =>
+              updateDraft({ severity: severity as SeverityName })
+            }
+          >
+            <SelectTrigger
+              id="custom-rule-severity"
+              size="sm"
+              className="w-full"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="error">{SEVERITY_LABELS.error}</SelectItem>
+              <SelectItem value="warning">{SEVERITY_LABELS.warning}</SelectItem>
+              <SelectItem value="info">{SEVERITY_LABELS.info}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="custom-rule-pattern" className="text-xs">
+            検出する表記
+          </Label>
+          <Input
+            id="custom-rule-pattern"
+            value={draft.pattern}
+            onChange={e => updateDraft({ pattern: e.target.value })}
+            placeholder="語 または /正規表現/"
+            aria-invalid={!!error}
+            className="h-8 font-mono"
+          />
+        </div>
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="custom-rule-message" className="text-xs">
+            メッセージ（$& で一致した文字列、$1 でグループを参照）
+          </Label>
+          <Input
+            id="custom-rule-message"
+            value={draft.message}
+            onChange={e => updateDraft({ message: e.target.value })}
+            placeholder="「$&」は使わないでください"
+            className="h-8"
+          />
+        </div>
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="custom-rule-replacement" className="text-xs">
+            置き換え後の表記（任意。指定すると自動修正できます）
+          </Label>
+          <Input
+            id="custom-rule-replacement"
+            value={draft.replacement ?? ""}
+            onChange={e => updateDraft({ replacement: e.target.value })}
+            className="h-8 font-mono"
+          />
+        </div>
+        {error && (
+          <p className="col-span-2 text-xs text-destructive">{error}</p>
+        )}
+        <div className="col-span-2 flex justify-end gap-2">
+          {editingId !== null && (
+            <Button variant="ghost" size="sm" onClick={resetForm}>
+              キャンセル
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSave}
+            disabled={!draft.id || !draft.pattern}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {editingId === null ? "ルールを追加" : "変更を保存"}
+          </Button>
+        </div>
+      </div>
+      {value.length > 0 && (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {value.map(rule => (
+            <li key={rule.id} className="flex items-start gap-2 px-3 py-2">
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="font-mono text-sm">{rule.id}</p>
+                <p className="font-mono text-xs break-all text-muted-foreground">
+                  {rule.pattern}
+                  {rule.replacement !== undefined && ` → ${rule.replacement}`}
+                </p>
+                <p className="text-xs text-muted-foreground">{rule.message}</p>
+              </div>
+              <Select
+                value={severities[rule.id] ?? rule.severity}
+                onValueChange={value =>
+                  onSeverityChange(rule.id, value as SeverityName | "off")
+                }
+              >
+                <SelectTrigger size="sm" className="w-24 flex-shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="error">{SEVERITY_LABELS.error}</SelectItem>
+                  <SelectItem value="warning">
+                    {SEVERITY_LABELS.warning}
+                  </SelectItem>
+                  <SelectItem value="info">{SEVERITY_LABELS.info}</SelectItem>
+                  <SelectItem value="off">オフ</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                aria-label={`${rule.id} を編集`}
+                onClick={() => {
+                  setDraft(rule);
+                  setEditingId(rule.id);
+                  setError(null);
+                }}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                aria-label={`${rule.id} を削除`}
+                onClick={() => {
+                  if (editingId === rule.id) resetForm();
+                  onChange(value.filter(r => r.id !== rule.id));
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
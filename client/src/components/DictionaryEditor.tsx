@@ -0,0 +1,216 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  parsePrhDictionary,
+  serializePrhDictionary,
+  validateDictionaryPattern,
+} from "@shared/textlint/dictionary";
+import type { DictionaryEntry } from "@shared/textlint/types";
+import { FileDown, FileUp, Plus, Trash2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface DictionaryEditorProps {
+  value: DictionaryEntry[];
+  onChange: (dictionary: DictionaryEntry[]) => void;
+}
+
+// Patterns are comma separated; a `/regex/flags` item may itself contain commas
+const PATTERN_TOKEN = /\/(?:\\.|[^\\/])+\/[a-z]*|[^,]+/g;
+
+function splitPatterns(input: string): string[] {
+  return (input.match(PATTERN_TOKEN) ?? [])
+    .map(pattern => pattern.trim())
+    .filter(Boolean);
+}
+
+function joinPatterns(patterns: string[]): string {
+  return patterns.join(", ");
+}
+
+interface DictionaryRowProps {
+  entry: DictionaryEntry;
+  onChange: (entry: DictionaryEntry) => void;
+  onRemove: () => void;
+}
+
+function DictionaryRow({ entry, onChange, onRemove }: DictionaryRowProps) {
+  // Invalid regexes stay in the input with an error and are not passed to the linter
+  const [patternsDraft, setPatternsDraft] = useState(
+    joinPatterns(entry.patterns)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow changes made outside the row (e.g. importing a dictionary)
+  const patternsKey = JSON.stringify(entry.patterns);
+  useEffect(() => {
+    setPatternsDraft(joinPatterns(JSON.parse(patternsKey)));
+    setError(null);
+  }, [patternsKey]);
+
+  const updatePatterns = (input: string) => {
+    setPatternsDraft(input);
+    const patterns = splitPatterns(input);
+    const message = patterns
+      .map(validateDictionaryPattern)
+      .find(message => message !== undefined);
+    if (message) {
+      setError(message);
+      return;
+    }
+    setError(null);
+    onChange({ ...entry, patterns });
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="align-top">
+        <Input
+          value={entry.expected}
+          onChange={e => onChange({ ...entry, expected: e.target.value })}
+          aria-label="期待する表記"
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell className="align-top whitespace-normal">
+        <Input
+          value={patternsDraft}
+          onChange={e => updatePatterns(e.target.value)}
+          placeholder="大文字・小文字、全角・半角違い"
+          aria-label="表記ゆれ"
+          aria-invalid={!!error}
+          className="h-8 font-mono"
+        />
+        {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+      </TableCell>
+      <TableCell className="align-top w-8">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label={`${entry.expected} を辞書から削除`}
+          onClick={onRemove}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Table editor for the prh-style replacement dictionary.
+ * Each row maps spelling variants (plain strings or `/regex/`) to the expected spelling.
+ */
+export function DictionaryEditor({ value, onChange }: DictionaryEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      const { entries, unsupported } = parsePrhDictionary(await file.text());
+      onChange(entries);
+      if (unsupported.length > 0) {
+        toast.warning(
+          `${file.name} を読み込みました（${unsupported.join(", ")} は読み込めないため読み飛ばしました）`
+        );
+      } else {
+        toast.success(`${file.name} から${entries.length}件を読み込みました`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePrhDictionary(value)], {
+      type: "application/yaml",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "prh.yml";
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success("prh.yml を書き出しました");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".yml,.yaml,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { expected: "", patterns: [] }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          行を追加
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <FileUp className="h-4 w-4 mr-1" />
+          prh.yml を読み込む
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={value.length === 0}
+        >
+          <FileDown className="h-4 w-4 mr-1" />
+          書き出す
+        </Button>
+      </div>
+      {value.length > 0 && (
+        <div className="max-h-80 overflow-y-auto rounded-md border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-1/3">期待する表記</TableHead>
+                <TableHead>表記ゆれ（カンマ区切り、/正規表現/ も可）</TableHead>
+                <TableHead className="w-8" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.map((entry, index) => (
+                <DictionaryRow
+                  key={index}
+                  entry={entry}
+                  onChange={updated =>
+                    onChange(
+                      value.map((current, i) =>
+                        i === index ? updated : current
+                      )
+                    )
+                  }
+                  onRemove={() => onChange(value.filter((_, i) => i !== index))}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import type { WorkspaceDocument } from "@/lib/workspace";
+import { cn } from "@/lib/utils";
+import {
+  Copy,
+  FileText,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useRef, useState } from "react";
+
+interface DocumentSidebarProps {
+  documents: WorkspaceDocument[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  /** Creates an empty document */
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * List of the workspace documents with create, rename, duplicate and delete.
+ * Each entry shows the counts from the document's last lint result.
+ */
+export function DocumentSidebar({
+  documents,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DocumentSidebarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState("");
+  const [deletingDocument, setDeletingDocument] =
+    useState<WorkspaceDocument | null>(null);
+  // Keeps the closing menu from moving focus back to its trigger, which would blur the name input
+  const focusNameInput = useRef(false);
+
+  const startRename = (document: WorkspaceDocument) => {
+    setRenamingId(document.id);
+    setNameDraft(document.name);
+  };
+
+  // An empty name keeps the previous one
+  const commitRename = () => {
+    const name = nameDraft.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <nav aria-label="文書" className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">文書</h2>
+        <Button variant="ghost" size="sm" onClick={() => onCreate()}>
+          <Plus className="h-4 w-4 mr-1" />
+          新規
+        </Button>
+      </div>
+      <ul className="space-y-1">
+        {documents.map(document => (
+          <li
+            key={document.id}
+            className={cn(
+              "flex items-center gap-1 rounded-md pr-1",
+              document.id === activeId ? "bg-accent" : "hover:bg-accent/50"
+            )}
+          >
+            {renamingId === document.id ? (
+              <Input
+                value={nameDraft}
+                onChange={e => setNameDraft(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setRenamingId(null);
+                }}
+                aria-label="文書の名前"
+                className="h-8 m-1"
+                autoFocus
+              />
+            ) : (
+              <button
+                type="button"
+                className="flex min-w-0 flex-1 items-start gap-2 px-2 py-1.5 text-left"
+                aria-current={document.id === activeId ? "page" : undefined}
+                onClick={() => onSelect(document.id)}
+                onDoubleClick={() => startRename(document)}
+              >
+                <FileText className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                <span className="min-w-0">
+                  <span className="block truncate text-sm">
+                    {document.name}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {document.text.length}文字
+                    {document.lintResult &&
+                      `・エラー${document.lintResult.errorCount} 警告${document.lintResult.warningCount}`}
+                  </span>
+                </span>
+              </button>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 flex-shrink-0"
+                  aria-label={`${document.name} の操作`}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent
+                align="end"
+                onCloseAutoFocus={e => {
+                  if (!focusNameInput.current) return;
+                  focusNameInput.current = false;
+                  e.preventDefault();
+                }}
+              >
+                <DropdownMenuItem
+                  onSelect={() => {
+                    focusNameInput.current = true;
+                    startRename(document);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                  名前を変更
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onDuplicate(document.id)}>
+                  <Copy className="h-4 w-4" />
+                  複製
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  variant="destructive"
+                  disabled={documents.length <= 1}
+                  onSelect={() => setDeletingDocument(document)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  削除
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </li>
+        ))}
+      </ul>
+      <AlertDialog
+        open={deletingDocument !== null}
+        onOpenChange={open => {
+          if (!open) setDeletingDocument(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              「{deletingDocument?.name}」を削除しますか？
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              文書のテキストとチェック結果が削除されます。元に戻すことはできません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingDocument) onDelete(deletingDocument.id);
+              }}
+            >
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </nav>
+  );
+}
@@ -0,0 +1,267 @@
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  highestSeverity,
+  severityName,
+  type SeverityName,
+} from "@shared/textlint/severity";
+import type { TextlintMessage } from "@shared/textlint/types";
+import {
+  forwardRef,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ComponentPropsWithoutRef,
+  type MouseEvent,
+} from "react";
+
+interface LintEditorProps
+  extends Omit<ComponentPropsWithoutRef<"textarea">, "value"> {
+  value: string;
+  /** Messages to underline. Their ranges must refer to `value` */
+  messages: TextlintMessage[];
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  messages: TextlintMessage[];
+}
+
+interface Tooltip {
+  messages: TextlintMessage[];
+  top: number;
+  left: number;
+}
+
+const UNDERLINE_STYLES: Record<SeverityName, string> = {
+  error: "decoration-red-500 bg-red-500/10",
+  warning: "decoration-yellow-500 bg-yellow-500/10",
+  info: "decoration-blue-500 bg-blue-500/10",
+};
+
+const MESSAGE_STYLES: Record<SeverityName, string> = {
+  error: "text-destructive",
+  warning: "text-yellow-600 dark:text-yellow-500",
+  info: "text-blue-600 dark:text-blue-400",
+};
+
+// Styles the mirror must share with the textarea so that both wrap identically
+const MIRRORED_STYLES = [
+  "boxSizing",
+  "fontFamily",
+  "fontSize",
+  "fontWeight",
+  "fontStyle",
+  "fontFeatureSettings",
+  "letterSpacing",
+  "lineHeight",
+  "tabSize",
+  "textIndent",
+  "textTransform",
+  "wordSpacing",
+  "wordBreak",
+  "overflowWrap",
+  "paddingTop",
+  "paddingBottom",
+  "paddingLeft",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+] as const;
+
+// Split the text at every message boundary so each segment has a fixed set of messages
+function buildSegments(text: string, messages: TextlintMessage[]): Segment[] {
+  const spans = messages.flatMap(message => {
+    const [start, end] = message.range;
+    // Document-wide messages would underline everything; they are listed in the panel only
+    if (start <= 0 && end >= text.length && text.length > 0) return [];
+    if (start < 0 || start >= text.length) return [];
+    return [
+      { start, end: Math.min(text.length, Math.max(end, start + 1)), message },
+    ];
+  });
+
+  const boundaries = new Set([0, text.length]);
+  spans.forEach(span => {
+    boundaries.add(span.start);
+    boundaries.add(span.end);
+  });
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    segments.push({
+      start,
+      end,
+      messages: spans
+        .filter(span => span.start < end && span.end > start)
+        .map(span => span.message),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Textarea with lint messages underlined in place.
+ * A mirror element with the same metrics is rendered behind the transparent textarea
+ * and kept in sync with its size and scroll position.
+ */
+export const LintEditor = forwardRef<HTMLTextAreaElement, LintEditorProps>(
+  function LintEditor({ value, messages, className, onScroll, ...props }, ref) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const mirrorRef = useRef<HTMLDivElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [tooltip, setTooltip] = useState<Tooltip | null>(null);
+
+    useImperativeHandle(ref, () => textareaRef.current!, []);
+
+    const segments = useMemo(
+      () => buildSegments(value, messages),
+      [value, messages]
+    );
+
+    // Copy the textarea metrics to the mirror whenever its size changes
+    useLayoutEffect(() => {
+      const textarea = textareaRef.current;
+      const mirror = mirrorRef.current;
+      if (!textarea || !mirror) return;
+
+      const sync = () => {
+        const style = window.getComputedStyle(textarea);
+        MIRRORED_STYLES.forEach(property => {
+          mirror.style[property] = style[property];
+        });
+        // The scrollbar takes up width inside the textarea but not in the mirror
+        const scrollbarWidth =
+          textarea.offsetWidth -
+          textarea.clientWidth -
+          parseFloat(style.borderLeftWidth) -
+          parseFloat(style.borderRightWidth);
+        mirror.style.paddingRight = `${parseFloat(style.paddingRight) + scrollbarWidth}px`;
+        mirror.scrollTop = textarea.scrollTop;
+        mirror.scrollLeft = textarea.scrollLeft;
+      };
+
+      sync();
+      const observer = new ResizeObserver(sync);
+      observer.observe(textarea);
+      return () => observer.disconnect();
+    }, []);
+
+    // Wrapping can change without a resize (e.g. the last line gets longer)
+    useLayoutEffect(() => {
+      const textarea = textareaRef.current;
+      const mirror = mirrorRef.current;
+      if (!textarea || !mirror) return;
+      mirror.scrollTop = textarea.scrollTop;
+      mirror.scrollLeft = textarea.scrollLeft;
+    }, [value, segments]);
+
+    const handleMouseMove = (e: MouseEvent<HTMLTextAreaElement>) => {
+      const mirror = mirrorRef.current;
+      const container = containerRef.current;
+      if (!mirror || !container) return;
+
+      const highlighted =
+        mirror.querySelectorAll<HTMLElement>("[data-segment]");
+      for (const element of Array.from(highlighted)) {
+        const rects = Array.from(element.getClientRects());
+        const hit = rects.find(
+          rect =>
+            e.clientX >= rect.left &&
+            e.clientX <= rect.right &&
+            e.clientY >= rect.top &&
+            e.clientY <= rect.bottom
+        );
+        if (!hit) continue;
+
+        const segment = segments[Number(element.dataset.segment)];
+        if (!segment) break;
+        const bounds = container.getBoundingClientRect();
+        setTooltip({
+          messages: segment.messages,
+          top: hit.bottom - bounds.top + 4,
+          left: Math.max(
+            0,
+            Math.min(hit.left - bounds.left, bounds.width - 320)
+          ),
+        });
+        return;
+      }
+      setTooltip(null);
+    };
+
+    return (
+      <div ref={containerRef} className="relative rounded-md dark:bg-input/30">
+        <div
+          ref={mirrorRef}
+          aria-hidden
+          className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words border border-transparent text-transparent"
+        >
+          {segments.map((segment, index) => {
+            const segmentText = value.slice(segment.start, segment.end);
+            if (segment.messages.length === 0) return segmentText;
+
+            const severity = highestSeverity(
+              segment.messages.map(msg => msg.severity)
+            );
+            return (
+              <span
+                key={index}
+                data-segment={index}
+                className={cn(
+                  "underline decoration-wavy decoration-2 underline-offset-4",
+                  UNDERLINE_STYLES[severity]
+                )}
+              >
+                {segmentText}
+              </span>
+            );
+          })}
+          {/* A trailing newline needs a character after it to take up a line */}
+          {value.endsWith("\n") && "\u200b"}
+        </div>
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          className={cn(
+            "relative z-10 bg-transparent dark:bg-transparent",
+            className
+          )}
+          onScroll={e => {
+            if (mirrorRef.current) {
+              mirrorRef.current.scrollTop = e.currentTarget.scrollTop;
+              mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft;
+            }
+            setTooltip(null);
+            onScroll?.(e);
+          }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setTooltip(null)}
+          {...props}
+        />
+        {tooltip && (
+          <div
+            className="pointer-events-none absolute z-20 w-80 max-w-full space-y-1 rounded-md border bg-popover p-2 text-popover-foreground shadow-md"
+            style={{ top: tooltip.top, left: tooltip.left }}
+          >
+            {tooltip.messages.map((message, index) => (
+              <div key={index} className="text-xs">
+                <p className={MESSAGE_STYLES[severityName(message.severity)]}>
+                  {message.message}
+                </p>
+                <p className="text-muted-foreground">{message.ruleId}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
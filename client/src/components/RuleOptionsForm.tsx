@@ -0,0 +1,144 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  RULE_OPTION_SCHEMAS,
+  getRuleOptionFields,
+  type RuleOptions,
+} from "@shared/textlint/rule-options";
+import { useEffect, useMemo, useState } from "react";
+
+interface RuleOptionsFormProps {
+  ruleId: string;
+  /** Current options of the rule (already validated) */
+  value: RuleOptions;
+  /** Called only with options that pass the rule's schema */
+  onChange: (options: RuleOptions) => void;
+}
+
+// Empty string is not a valid Select value, so "no preference" gets its own label
+function choiceLabel(choice: string): string {
+  return choice === "" ? "指定なし" : choice;
+}
+
+/**
+ * Form for a rule's options, generated from its zod schema.
+ * Invalid input stays in the form with an error and is not passed to the linter.
+ */
+export function RuleOptionsForm({
+  ruleId,
+  value,
+  onChange,
+}: RuleOptionsFormProps) {
+  const { schema } = RULE_OPTION_SCHEMAS[ruleId];
+  const fields = useMemo(() => getRuleOptionFields(schema), [schema]);
+  const [draft, setDraft] = useState<RuleOptions>(value);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Follow changes made outside the form (e.g. reset to defaults)
+  const valueKey = JSON.stringify(value);
+  useEffect(() => {
+    setDraft(JSON.parse(valueKey));
+    setErrors({});
+  }, [valueKey]);
+
+  const update = (key: string, fieldValue: unknown) => {
+    const next = { ...draft, [key]: fieldValue };
+    setDraft(next);
+
+    const result = schema.safeParse(next);
+    if (result.success) {
+      setErrors({});
+      onChange(result.data);
+    } else {
+      setErrors(
+        Object.fromEntries(
+          result.error.issues.map(issue => [
+            String(issue.path[0]),
+            issue.message,
+          ])
+        )
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      {fields.map(field => {
+        const id = `${ruleId}-${field.key}`;
+        const error = errors[field.key];
+
+        return (
+          <div key={field.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-4">
+              <Label
+                htmlFor={id}
+                className="text-xs font-normal text-muted-foreground"
+              >
+                {field.label}
+              </Label>
+              {field.kind === "number" && (
+                <Input
+                  id={id}
+                  type="number"
+                  min={field.min}
+                  className="h-8 w-24"
+                  aria-invalid={!!error}
+                  // An empty field becomes NaN so that it fails validation instead of
+                  // silently falling back to the default
+                  value={
+                    Number.isNaN(draft[field.key])
+                      ? ""
+                      : String(draft[field.key] ?? "")
+                  }
+                  onChange={e =>
+                    update(
+                      field.key,
+                      e.target.value === "" ? NaN : Number(e.target.value)
+                    )
+                  }
+                />
+              )}
+              {field.kind === "boolean" && (
+                <Switch
+                  id={id}
+                  checked={draft[field.key] === true}
+                  onCheckedChange={checked => update(field.key, checked)}
+                />
+              )}
+              {field.kind === "select" && (
+                <Select
+                  value={String(
+                    field.choices.indexOf(String(draft[field.key]))
+                  )}
+                  onValueChange={index =>
+                    update(field.key, field.choices[Number(index)])
+                  }
+                >
+                  <SelectTrigger id={id} size="sm" className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.choices.map((choice, index) => (
+                      <SelectItem key={choice} value={String(index)}>
+                        {choiceLabel(choice)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,13 +3,14 @@ import { useComposition } from "@/hooks/useComposition";
 import { cn } from "@/lib/utils";
 import * as React from "react";
 
-function Textarea({
-  className,
-  onKeyDown,
-  onCompositionStart,
-  onCompositionEnd,
-  ...props
-}: React.ComponentProps<"textarea">) {
+// React 18 does not pass `ref` to function components as a prop, so forward it explicitly
+const Textarea = React.forwardRef<
+  HTMLTextAreaElement,
+  React.ComponentPropsWithoutRef<"textarea">
+>(function Textarea(
+  { className, onKeyDown, onCompositionStart, onCompositionEnd, ...props },
+  ref
+) {
   // Get dialog composition context if available (will be no-op if not inside Dialog)
   const dialogComposition = useDialogComposition();
 
@@ -51,6 +52,7 @@ function Textarea({
 
   return (
     <textarea
+      ref={ref}
       data-slot="textarea"
       className={cn(
         "border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive dark:bg-input/30 flex field-sizing-content min-h-16 w-full rounded-md border bg-transparent px-3 py-2 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm",
@@ -62,6 +64,6 @@ function Textarea({
       {...props}
     />
   );
-}
+});
 
 export { Textarea };
@@ -0,0 +1,87 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+
+const STORAGE_KEY = "textlint-dismissed";
+
+// 文書IDごとの指紋の一覧
+type DismissedByDocument = Record<string, string[]>;
+
+function loadDismissed(): DismissedByDocument {
+  try {
+    const saved: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "{}"
+    );
+    // 以前の形式（文書を区別しない指紋の配列）は、どの文書のものかわからないため読み込まない
+    if (typeof saved !== "object" || saved === null || Array.isArray(saved)) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(saved)
+        .filter((entry): entry is [string, unknown[]] =>
+          Array.isArray(entry[1])
+        )
+        .map(([id, fingerprints]) => [
+          id,
+          fingerprints.filter(item => typeof item === "string"),
+        ])
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 文書ごとに、非表示にした指摘の指紋（fingerprintMessages）を管理する。
+ * 指紋は編集しても変わらないため、再チェックや再読み込みの後も非表示のままになる。
+ * 文書を削除したら forget でその文書の指紋を消す
+ */
+export function useDismissedMessages(documentId: string | null) {
+  const [byDocument, setByDocument] =
+    useState<DismissedByDocument>(loadDismissed);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(byDocument));
+  }, [byDocument]);
+
+  const dismissed = useMemo(
+    () => new Set(documentId ? byDocument[documentId] : []),
+    [byDocument, documentId]
+  );
+
+  const dismiss = useCallback(
+    (fingerprint: string) => {
+      if (!documentId) return;
+      setByDocument(prev => {
+        const fingerprints = prev[documentId] ?? [];
+        if (fingerprints.includes(fingerprint)) return prev;
+        return { ...prev, [documentId]: [...fingerprints, fingerprint] };
+      });
+    },
+    [documentId]
+  );
+
+  const restore = useCallback(
+    (fingerprint: string) => {
+      if (!documentId) return;
+      setByDocument(prev => {
+        const fingerprints = (prev[documentId] ?? []).filter(
+          item => item !== fingerprint
+        );
+        const { [documentId]: _removed, ...rest } = prev;
+        return fingerprints.length > 0
+          ? { ...rest, [documentId]: fingerprints }
+          : rest;
+      });
+    },
+    [documentId]
+  );
+
+  const forget = useCallback((id: string) => {
+    setByDocument(prev => {
+      if (!(id in prev)) return prev;
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return { dismissed, dismiss, restore, forget };
+}
@@ -0,0 +1,83 @@
+import { useState, useCallback, useEffect } from "react";
+import {
+  createDefaultProfiles,
+  loadProfiles,
+  saveProfiles,
+  type RuleProfile,
+  type RuleProfileState,
+  type RuleSettings,
+} from "@/lib/rule-profiles";
+
+export type { RuleProfile, RuleSettings } from "@/lib/rule-profiles";
+
+/**
+ * ルール設定のプロファイルを管理する。変更はアクティブなプロファイルに保存され、
+ * localStorage に自動的に書き込まれる
+ */
+export function useRuleProfiles() {
+  const [state, setState] = useState<RuleProfileState>(loadProfiles);
+
+  useEffect(() => {
+    saveProfiles(state);
+  }, [state]);
+
+  const activeProfile =
+    state.profiles.find(profile => profile.id === state.activeId) ??
+    state.profiles[0];
+
+  const updateSettings = useCallback(
+    (update: (settings: RuleSettings) => RuleSettings) => {
+      setState(prev => ({
+        ...prev,
+        profiles: prev.profiles.map(profile =>
+          profile.id === prev.activeId
+            ? { ...profile, settings: update(profile.settings) }
+            : profile
+        ),
+      }));
+    },
+    []
+  );
+
+  const switchProfile = useCallback((id: string) => {
+    setState(prev => ({ ...prev, activeId: id }));
+  }, []);
+
+  // 現在の設定を複製して新しいプロファイルを作り、そちらに切り替える
+  const createProfile = useCallback((name: string) => {
+    const id = `profile-${Date.now().toString(36)}`;
+    setState(prev => {
+      const current = prev.profiles.find(
+        profile => profile.id === prev.activeId
+      );
+      const settings =
+        current?.settings ?? createDefaultProfiles().profiles[0].settings;
+      return {
+        activeId: id,
+        profiles: [...prev.profiles, { id, name, settings }],
+      };
+    });
+  }, []);
+
+  // 最後の1つは削除できない
+  const deleteProfile = useCallback((id: string) => {
+    setState(prev => {
+      if (prev.profiles.length <= 1) return prev;
+      const profiles = prev.profiles.filter(profile => profile.id !== id);
+      return {
+        activeId: prev.activeId === id ? profiles[0].id : prev.activeId,
+        profiles,
+      };
+    });
+  }, []);
+
+  return {
+    profiles: state.profiles as RuleProfile[],
+    activeProfile,
+    settings: activeProfile.settings,
+    updateSettings,
+    switchProfile,
+    createProfile,
+    deleteProfile,
+  };
+}
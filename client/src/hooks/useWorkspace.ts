@@ -0,0 +1,198 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  createDocument as createWorkspaceDocument,
+  deleteDocument as deleteStoredDocument,
+  loadWorkspace,
+  saveActiveId,
+  saveDocument,
+  uniqueDocumentName,
+  type WorkspaceDocument,
+  type WorkspaceState,
+} from "@/lib/workspace";
+
+export type { WorkspaceDocument } from "@/lib/workspace";
+
+// 入力のたびに書き込まないよう、編集が止まってから保存する
+const SAVE_DELAY = 500;
+
+type DocumentChanges = Partial<Omit<WorkspaceDocument, "id" | "createdAt">>;
+
+/**
+ * 複数の文書をまとめたワークスペースを管理する。変更は IndexedDB に自動的に書き込まれる。
+ * IndexedDB を使えない環境では、保存せずにメモリ上の文書で編集を続ける
+ */
+export function useWorkspace() {
+  const [state, setState] = useState<WorkspaceState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // IndexedDB に保存済みの文書。参照が変わった文書だけを書き込み、なくなった文書を削除する
+  const savedRef = useRef(new Map<string, WorkspaceDocument>());
+
+  useEffect(() => {
+    let active = true;
+    loadWorkspace().then(
+      workspace => {
+        if (!active) return;
+        savedRef.current = new Map(
+          workspace.documents.map(document => [document.id, document])
+        );
+        setState(workspace);
+      },
+      (err: Error) => {
+        if (!active) return;
+        console.error("Failed to open workspace:", err);
+        setError(err.message);
+        const document = createWorkspaceDocument();
+        setState({ activeId: document.id, documents: [document] });
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const flush = useCallback((documents: WorkspaceDocument[]) => {
+    const saved = savedRef.current;
+    const ids = new Set(documents.map(document => document.id));
+    for (const id of Array.from(saved.keys())) {
+      if (ids.has(id)) continue;
+      saved.delete(id);
+      deleteStoredDocument(id).catch(err =>
+        console.error("Failed to delete document:", err)
+      );
+    }
+    for (const document of documents) {
+      if (saved.get(document.id) === document) continue;
+      saved.set(document.id, document);
+      saveDocument(document).catch(err =>
+        console.error("Failed to save document:", err)
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!state || error) return;
+    const timer = setTimeout(() => flush(state.documents), SAVE_DELAY);
+    // ページを閉じるときは待たずに書き込む
+    const handlePageHide = () => flush(state.documents);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, [state, error, flush]);
+
+  const activeId = state?.activeId;
+  useEffect(() => {
+    if (!activeId || error) return;
+    saveActiveId(activeId).catch(err =>
+      console.error("Failed to save active document:", err)
+    );
+  }, [activeId, error]);
+
+  const updateDocument = useCallback((id: string, changes: DocumentChanges) => {
+    setState(
+      prev =>
+        prev && {
+          ...prev,
+          documents: prev.documents.map(document =>
+            document.id === id ? { ...document, ...changes } : document
+          ),
+        }
+    );
+  }, []);
+
+  const updateActiveDocument = useCallback((changes: DocumentChanges) => {
+    setState(
+      prev =>
+        prev && {
+          ...prev,
+          documents: prev.documents.map(document =>
+            document.id === prev.activeId
+              ? { ...document, ...changes }
+              : document
+          ),
+        }
+    );
+  }, []);
+
+  const switchDocument = useCallback((id: string) => {
+    setState(prev => prev && { ...prev, activeId: id });
+  }, []);
+
+  // 新しい文書を作り、そちらに切り替える。内容を省略すると空の文書になる
+  const createDocument = useCallback((contents: DocumentChanges = {}) => {
+    setState(prev => {
+      if (!prev) return prev;
+      const document = createWorkspaceDocument({
+        ...contents,
+        name: uniqueDocumentName(contents.name ?? "無題の文書", prev.documents),
+      });
+      return {
+        activeId: document.id,
+        documents: [...prev.documents, document],
+      };
+    });
+  }, []);
+
+  // テキスト・形式・チェック結果を引き継いだコピーを作り、そちらに切り替える。
+  // コピーを保存して元のファイルを上書きしないよう、ファイルとの関連は引き継がない
+  const duplicateDocument = useCallback((id: string) => {
+    setState(prev => {
+      const source = prev?.documents.find(document => document.id === id);
+      if (!prev || !source) return prev;
+      const {
+        id: _id,
+        createdAt: _createdAt,
+        fileName: _fileName,
+        fileHandle: _fileHandle,
+        ...contents
+      } = source;
+      const document = createWorkspaceDocument({
+        ...contents,
+        name: uniqueDocumentName(`${source.name} のコピー`, prev.documents),
+      });
+      return {
+        activeId: document.id,
+        documents: [...prev.documents, document],
+      };
+    });
+  }, []);
+
+  const renameDocument = useCallback(
+    (id: string, name: string) => {
+      updateDocument(id, { name });
+    },
+    [updateDocument]
+  );
+
+  // 最後の1つは削除できない。アクティブな文書を削除したら隣の文書に切り替える
+  const deleteDocument = useCallback((id: string) => {
+    setState(prev => {
+      if (!prev || prev.documents.length <= 1) return prev;
+      const index = prev.documents.findIndex(document => document.id === id);
+      const documents = prev.documents.filter(document => document.id !== id);
+      return {
+        activeId:
+          prev.activeId === id
+            ? documents[Math.min(index, documents.length - 1)].id
+            : prev.activeId,
+        documents,
+      };
+    });
+  }, []);
+
+  return {
+    documents: state?.documents ?? [],
+    activeDocument:
+      state?.documents.find(document => document.id === state.activeId) ?? null,
+    isLoading: state === null,
+    error,
+    updateDocument,
+    updateActiveDocument,
+    switchDocument,
+    createDocument,
+    duplicateDocument,
+    renameDocument,
+    deleteDocument,
+  };
+}
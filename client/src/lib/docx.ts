@@ -0,0 +1,72 @@
+import { unzipSync } from "fflate";
+
+// WordprocessingML の名前空間
+const W_NAMESPACE =
+  "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const DOCUMENT_PATH = "word/document.xml";
+
+// 要素を含む最も内側の段落（w:p）
+function paragraphOf(element: Element): Element | null {
+  let parent = element.parentElement;
+  while (
+    parent &&
+    !(parent.localName === "p" && parent.namespaceURI === W_NAMESPACE)
+  ) {
+    parent = parent.parentElement;
+  }
+  return parent;
+}
+
+// 段落の文字列。書式の定義（w:pPr の w:tab など）は除き、ラン（w:r）の中の文字・タブ・改行だけを使う
+function paragraphText(paragraph: Element): string {
+  let text = "";
+  for (const element of Array.from(
+    paragraph.getElementsByTagNameNS(W_NAMESPACE, "*")
+  )) {
+    if (element.parentElement?.localName !== "r") continue;
+    // テキストボックスなど、段落の中の別の段落は別に数える
+    if (paragraphOf(element) !== paragraph) continue;
+    switch (element.localName) {
+      case "t":
+        text += element.textContent ?? "";
+        break;
+      case "tab":
+        text += "\t";
+        break;
+      case "br":
+      case "cr":
+        text += "\n";
+        break;
+    }
+  }
+  return text;
+}
+
+/**
+ * Word文書（.docx）の本文をテキストとして取り出す。段落ごとに1行にし、表のセルも段落として並べる。
+ * 書式・画像・変更履歴の削除部分は含めない。Word文書として読み込めなければ例外を投げる
+ */
+export function extractDocxText(data: Uint8Array, name: string): string {
+  let xml: Uint8Array | undefined;
+  try {
+    xml = unzipSync(data, { filter: file => file.name === DOCUMENT_PATH })[
+      DOCUMENT_PATH
+    ];
+  } catch {
+    xml = undefined;
+  }
+  if (!xml) throw new Error(`${name} はWord文書として読み込めません`);
+
+  const xmlDocument = new DOMParser().parseFromString(
+    new TextDecoder().decode(xml),
+    "application/xml"
+  );
+  if (xmlDocument.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`${name} はWord文書として読み込めません`);
+  }
+
+  return Array.from(xmlDocument.getElementsByTagNameNS(W_NAMESPACE, "p"))
+    .map(paragraphText)
+    .join("\n");
+}
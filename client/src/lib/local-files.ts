@@ -0,0 +1,220 @@
+import {
+  FILE_FORMATS,
+  formatFromFileName,
+} from "@shared/textlint/file-formats";
+import type { DocumentFormat } from "@shared/textlint/types";
+import { extractDocxText } from "./docx";
+
+// Word文書は本文のテキストだけを読み込み、プレーンテキストとしてチェックする
+const DOCX_EXTENSION = ".docx";
+
+const OPENABLE_EXTENSIONS = [...Object.keys(FILE_FORMATS), DOCX_EXTENSION];
+
+/** `<input type="file">` の accept に使う拡張子の一覧 */
+export const FILE_ACCEPT = OPENABLE_EXTENSIONS.join(",");
+
+// 保存はテキストとしてのみ行うため、Word文書は開くときだけ選べるようにする
+const SAVE_PICKER_TYPES: FilePickerAcceptType[] = [
+  {
+    description: "テキスト・Markdown",
+    accept: {
+      "text/plain": [".txt"],
+      "text/markdown": [".md", ".markdown"],
+    },
+  },
+];
+
+const OPEN_PICKER_TYPES: FilePickerAcceptType[] = [
+  ...SAVE_PICKER_TYPES,
+  {
+    description: "Word文書（テキストのみ）",
+    accept: {
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+        [DOCX_EXTENSION],
+    },
+  },
+];
+
+/** Word文書か。Word文書には書き戻せないため、保存はテキストファイルになる */
+export function isWordDocument(name: string): boolean {
+  return name.toLowerCase().endsWith(DOCX_EXTENSION);
+}
+
+function isOpenable(name: string): boolean {
+  return isWordDocument(name) || formatFromFileName(name) !== null;
+}
+
+/** 文書をテキストファイルとして保存するときのファイル名。Word文書から開いた文書は拡張子を付け替える */
+export function textFileName(name: string, format: DocumentFormat): string {
+  const base = isWordDocument(name)
+    ? name.slice(0, -DOCX_EXTENSION.length)
+    : name;
+  return `${base}${format === "markdown" ? ".md" : ".txt"}`;
+}
+
+export interface OpenedFile {
+  name: string;
+  text: string;
+  format: DocumentFormat;
+  /** 保存するときに書き戻すファイルの名前。Word文書には書き戻せないため持たない */
+  fileName?: string;
+  /** File System Access API で開いた場合のハンドル。保存するときはこのファイルに書き戻す */
+  handle?: FileSystemFileHandle;
+}
+
+export interface SavedFile {
+  name: string;
+  handle?: FileSystemFileHandle;
+}
+
+/** ファイルを選んで書き戻せるか（File System Access API に対応しているか） */
+export function supportsFileSystemAccess(): boolean {
+  return typeof window.showOpenFilePicker === "function";
+}
+
+// ファイル選択ダイアログをキャンセルしたときの例外
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** ファイルを読み込む。開けない拡張子のファイルや、読み込めないWord文書なら例外を投げる */
+export async function readLocalFile(
+  file: File,
+  handle?: FileSystemFileHandle
+): Promise<OpenedFile> {
+  if (isWordDocument(file.name)) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    return {
+      name: file.name,
+      text: extractDocxText(data, file.name),
+      format: "text",
+    };
+  }
+
+  const format = formatFromFileName(file.name);
+  if (!format) {
+    throw new Error(
+      `${file.name} は開けません（${OPENABLE_EXTENSIONS.join("・")} のファイルを選んでください）`
+    );
+  }
+  return {
+    name: file.name,
+    text: await file.text(),
+    format,
+    fileName: file.name,
+    handle,
+  };
+}
+
+/**
+ * File System Access API のダイアログでファイルを選んで読み込む。キャンセルされたら空の配列を返す。
+ * 対応していないブラウザでは `<input type="file">` と readLocalFile を使う
+ */
+export async function pickLocalFiles(): Promise<OpenedFile[]> {
+  let handles: FileSystemFileHandle[];
+  try {
+    handles = await window.showOpenFilePicker!({
+      multiple: true,
+      types: OPEN_PICKER_TYPES,
+    });
+  } catch (error) {
+    if (isAbortError(error)) return [];
+    throw error;
+  }
+  return Promise.all(
+    handles.map(async handle => readLocalFile(await handle.getFile(), handle))
+  );
+}
+
+/**
+ * ドロップされたファイルを読み込む。開けない拡張子のファイルは読み飛ばし、その名前を rejected に入れる。
+ * 対応しているブラウザでは、書き戻せるようにハンドルも取得する
+ */
+export async function readDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<{ files: OpenedFile[]; rejected: string[] }> {
+  // ハンドルはドロップのイベント中にしか取得できないため、読み込みを待つ前にまとめて取得する
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === "file")
+    .map(item => ({
+      file: item.getAsFile(),
+      handle: item.getAsFileSystemHandle?.().catch(() => null),
+    }));
+
+  const files: OpenedFile[] = [];
+  const rejected: string[] = [];
+  for (const { file, handle } of entries) {
+    if (!file) continue;
+    if (!isOpenable(file.name)) {
+      rejected.push(file.name);
+      continue;
+    }
+    const resolved = await handle;
+    files.push(
+      await readLocalFile(
+        file,
+        resolved?.kind === "file"
+          ? (resolved as FileSystemFileHandle)
+          : undefined
+      )
+    );
+  }
+  return { files, rejected };
+}
+
+async function writeFile(handle: FileSystemFileHandle, text: string) {
+  // 再読み込みの後は、書き込みの許可をもう一度求める必要がある
+  const descriptor = { mode: "readwrite" } as const;
+  if (
+    (await handle.queryPermission?.(descriptor)) !== "granted" &&
+    (await handle.requestPermission?.(descriptor)) !== "granted"
+  ) {
+    throw new Error(`${handle.name} への書き込みが許可されませんでした`);
+  }
+  const writable = await handle.createWritable();
+  await writable.write(text);
+  await writable.close();
+}
+
+function downloadFile(name: string, text: string) {
+  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * テキストをファイルに保存する。開いたファイルのハンドルがあればそのファイルに書き戻し、
+ * なければ保存先を選ぶ。File System Access API に対応していないブラウザではダウンロードする。
+ * 保存先の選択をキャンセルしたら null を返す
+ */
+export async function saveLocalFile(
+  text: string,
+  { name, handle }: { name: string; handle?: FileSystemFileHandle }
+): Promise<SavedFile | null> {
+  if (handle) {
+    await writeFile(handle, text);
+    return { name: handle.name, handle };
+  }
+
+  if (typeof window.showSaveFilePicker !== "function") {
+    downloadFile(name, text);
+    return { name };
+  }
+
+  let picked: FileSystemFileHandle;
+  try {
+    picked = await window.showSaveFilePicker({
+      suggestedName: name,
+      types: SAVE_PICKER_TYPES,
+    });
+  } catch (error) {
+    if (isAbortError(error)) return null;
+    throw error;
+  }
+  await writeFile(picked, text);
+  return { name: picked.name, handle: picked };
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadProfiles, saveProfiles } from "./rule-profiles";
+
+const STORAGE_KEY = "textlint-profiles";
+
+const config = { rules: { "preset-ja-technical-writing": true } };
+
+// 各バージョンで加わった設定の項目。v1の設定に順に加えると現在の形式になる
+const ADDED_SETTINGS: Record<number, Record<string, unknown>> = {
+  2: { severity: { "max-ten": "warning" } },
+  3: { allowlist: [{ pattern: "textlint", ruleIds: [] }] },
+  4: { dictionary: [{ expected: "サーバー", patterns: ["サーバ"] }] },
+  5: {
+    customRules: [
+      {
+        id: "custom-no-todo",
+        pattern: "TODO",
+        message: "TODOが残っています",
+        severity: "warning",
+      },
+    ],
+  },
+};
+
+// 指定したバージョンで保存されたデータ。そのバージョンまでに加わった項目だけを持つ
+function storedAt(version: number) {
+  const settings: Record<string, unknown> = {
+    config,
+    enabled: { "sentence-length": false },
+    options: { "max-ten": { max: 5 } },
+  };
+  for (let v = 2; v <= version; v++) Object.assign(settings, ADDED_SETTINGS[v]);
+  return {
+    version,
+    activeId: "mine",
+    profiles: [{ id: "mine", name: "自分用", settings }],
+  };
+}
+
+describe("loadProfiles", () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+    vi.stubGlobal("__TEXTLINT_CONFIG__", config);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  for (const version of [1, 2, 3, 4]) {
+    it(`migrates settings saved at v${version} and keeps what they had`, () => {
+      storage.set(STORAGE_KEY, JSON.stringify(storedAt(version)));
+      const [profile] = loadProfiles().profiles;
+      expect(profile.settings).toEqual({
+        // 保存された後に加わった項目は空の既定値になる
+        severity: {},
+        allowlist: [],
+        dictionary: [],
+        customRules: [],
+        ...storedAt(version).profiles[0].settings,
+      });
+    });
+  }
+
+  it("loads the current version as saved", () => {
+    const state = storedAt(5);
+    storage.set(STORAGE_KEY, JSON.stringify(state));
+    expect(loadProfiles()).toEqual({
+      activeId: state.activeId,
+      profiles: state.profiles,
+    });
+  });
+
+  it("round-trips through saveProfiles", () => {
+    const state = loadProfiles();
+    saveProfiles(state);
+    expect(loadProfiles()).toEqual(state);
+  });
+
+  it("falls back to the first profile when the active one is missing", () => {
+    storage.set(
+      STORAGE_KEY,
+      JSON.stringify({ ...storedAt(5), activeId: "removed" })
+    );
+    expect(loadProfiles().activeId).toBe("mine");
+  });
+
+  it("backs up data it can't read and uses the defaults", () => {
+    for (const saved of [
+      "{ broken",
+      JSON.stringify({ ...storedAt(5), version: 6 }),
+      JSON.stringify({ ...storedAt(5), version: 0 }),
+      JSON.stringify({ ...storedAt(5), profiles: [] }),
+    ]) {
+      storage.clear();
+      storage.set(STORAGE_KEY, saved);
+      expect(loadProfiles().activeId).toBe("tech-blog");
+      expect(storage.get(`${STORAGE_KEY}-backup`)).toBe(saved);
+    }
+  });
+});
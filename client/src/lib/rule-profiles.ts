@@ -0,0 +1,172 @@
+import {
+  ruleSettingsSchema,
+  type RuleSettings,
+} from "@shared/textlint/profile";
+import { z } from "zod";
+
+export type { RuleSettings } from "@shared/textlint/profile";
+
+export interface RuleProfile {
+  id: string;
+  name: string;
+  settings: RuleSettings;
+}
+
+export interface RuleProfileState {
+  activeId: string;
+  profiles: RuleProfile[];
+}
+
+const STORAGE_KEY = "textlint-profiles";
+const CURRENT_VERSION = 5;
+
+// 古いバージョンの保存データ。マイグレーションが触れる項目だけを確かめ、ほかの項目はそのまま引き継ぐ
+const legacyStateSchema = z.looseObject({
+  version: z.number(),
+  profiles: z
+    .array(z.looseObject({ settings: z.looseObject({}).optional() }))
+    .optional(),
+});
+
+type LegacyState = z.infer<typeof legacyStateSchema>;
+
+// すべてのプロファイルの設定に、新しい項目を既定値で加える
+function addSettings(
+  data: LegacyState,
+  version: number,
+  settings: Record<string, unknown>
+): LegacyState {
+  return {
+    ...data,
+    version,
+    profiles: data.profiles?.map(profile => ({
+      ...profile,
+      settings: { ...profile.settings, ...settings },
+    })),
+  };
+}
+
+/**
+ * 保存形式のマイグレーション。キーのバージョンのデータを次のバージョンの形式に変換する。
+ * ルールの追加では形式を変えない（enabled・options は変更したルールだけを持つため）
+ */
+const MIGRATIONS: Record<number, (data: LegacyState) => LegacyState> = {
+  // v2: ルールごとの重要度の変更（severity）を追加
+  1: data => addSettings(data, 2, { severity: {} }),
+  // v3: 許可リスト（allowlist）を追加
+  2: data => addSettings(data, 3, { allowlist: [] }),
+  // v4: 表記ゆれ辞書（dictionary）を追加
+  3: data => addSettings(data, 4, { dictionary: [] }),
+  // v5: 独自ルール（customRules）を追加
+  4: data => addSettings(data, 5, { customRules: [] }),
+};
+
+const storedSchema = z.object({
+  version: z.literal(CURRENT_VERSION),
+  activeId: z.string(),
+  profiles: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        settings: ruleSettingsSchema,
+      })
+    )
+    .min(1),
+});
+
+function createSettings(overrides: Partial<RuleSettings> = {}): RuleSettings {
+  return {
+    config: __TEXTLINT_CONFIG__,
+    enabled: {},
+    options: {},
+    severity: {},
+    allowlist: [],
+    dictionary: [],
+    customRules: [],
+    ...overrides,
+  };
+}
+
+/** 初回起動時のプロファイル */
+export function createDefaultProfiles(): RuleProfileState {
+  return {
+    activeId: "tech-blog",
+    profiles: [
+      { id: "tech-blog", name: "技術ブログ", settings: createSettings() },
+      {
+        id: "internal-spec",
+        name: "社内仕様書",
+        settings: createSettings({
+          options: {
+            "no-mix-dearu-desumasu": {
+              preferInHeader: "",
+              preferInBody: "である",
+              preferInList: "である",
+              strict: false,
+            },
+          },
+        }),
+      },
+      {
+        id: "ai-review",
+        name: "AI出力レビュー",
+        settings: createSettings({
+          // 長い説明文で頻発する指摘は抑え、AI特有の表現を中心に確認する
+          enabled: {
+            "sentence-length": false,
+            "max-kanji-continuous-len": false,
+          },
+        }),
+      },
+    ],
+  };
+}
+
+/** 保存されたデータを現在の形式に変換する。読み取れない場合は null */
+function migrate(data: unknown): RuleProfileState | null {
+  let current = data;
+  for (;;) {
+    const legacy = legacyStateSchema.safeParse(current);
+    if (!legacy.success || legacy.data.version >= CURRENT_VERSION) break;
+    const migration = MIGRATIONS[legacy.data.version];
+    if (!migration) return null;
+    current = migration(legacy.data);
+  }
+
+  const parsed = storedSchema.safeParse(current);
+  if (!parsed.success) return null;
+
+  const { activeId, profiles } = parsed.data;
+  return {
+    activeId: profiles.some(profile => profile.id === activeId)
+      ? activeId
+      : profiles[0].id,
+    profiles: profiles as RuleProfile[],
+  };
+}
+
+export function loadProfiles(): RuleProfileState {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return createDefaultProfiles();
+
+  try {
+    const state = migrate(JSON.parse(saved));
+    if (state) return state;
+  } catch {
+    // 壊れたデータは下で既定値に置き換える
+  }
+  // 新しいバージョンで保存されたデータなどを上書きで失わないよう、退避しておく
+  localStorage.setItem(`${STORAGE_KEY}-backup`, saved);
+  console.warn(
+    "保存されたルール設定を読み込めなかったため、既定の設定を使います"
+  );
+  return createDefaultProfiles();
+}
+
+export function saveProfiles(state: RuleProfileState) {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({ version: CURRENT_VERSION, ...state })
+  );
+}
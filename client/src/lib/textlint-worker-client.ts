@@ -0,0 +1,121 @@
+import type { LintResult, TextlintConfig } from "@shared/textlint/types";
+import type {
+  TextlintWorkerRequest,
+  TextlintWorkerResponse,
+  WorkerLintOptions,
+} from "@/workers/textlint.worker";
+
+interface PendingRequest {
+  resolve: (result: LintResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * textlintを実行するWeb Workerとのやり取りを、Promiseベースのインターフェースに変換する
+ */
+export class TextlintWorkerClient {
+  private worker: Worker;
+  private messageId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  /** Workerの初期化（kuromoji辞書の読み込み）が完了すると解決する */
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.worker = new Worker(
+      new URL("../workers/textlint.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    this.ready = new Promise((resolve, reject) => {
+      this.worker.addEventListener(
+        "message",
+        (event: MessageEvent<TextlintWorkerResponse>) => {
+          const response = event.data;
+          if (response.type === "ready") {
+            resolve();
+          } else if (response.type === "init-error") {
+            reject(new Error(response.message));
+          } else {
+            this.handleResponse(response);
+          }
+        }
+      );
+
+      this.worker.addEventListener("error", event => {
+        const error = new Error(
+          event.message || "Workerの読み込みに失敗しました"
+        );
+        reject(error);
+        this.rejectAll(error);
+      });
+    });
+  }
+
+  private handleResponse(
+    response: Extract<TextlintWorkerResponse, { id: number }>
+  ) {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if (response.type === "result") {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  /**
+   * テキストをチェックする。`signal` が中止されると、Worker側のチェックも中止して
+   * signal.reason で失敗する（中止したチェックの結果が後から届くことはない）
+   */
+  lintText(
+    text: string,
+    config: TextlintConfig,
+    options: WorkerLintOptions = {},
+    signal?: AbortSignal
+  ): Promise<LintResult> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const id = this.messageId++;
+
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        this.pending.delete(id);
+        const cancel: TextlintWorkerRequest = { type: "cancel", id };
+        this.worker.postMessage(cancel);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", abort, { once: true });
+
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener("abort", abort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener("abort", abort);
+          reject(error);
+        },
+      });
+      const request: TextlintWorkerRequest = {
+        type: "lint",
+        id,
+        text,
+        config,
+        options,
+      };
+      this.worker.postMessage(request);
+    });
+  }
+
+  terminate() {
+    this.rejectAll(new Error("Workerは終了しました"));
+    this.worker.terminate();
+  }
+}
@@ -0,0 +1,160 @@
+import type { DocumentFormat, LintResult } from "@shared/textlint/types";
+
+/** ワークスペースの文書 */
+export interface WorkspaceDocument {
+  id: string;
+  name: string;
+  text: string;
+  format: DocumentFormat;
+  /** 最後のチェック結果。文書を開き直したとき、チェックが終わるまでの間に表示する */
+  lintResult: LintResult | null;
+  /** lintResult を求めたテキスト（修正範囲はこのテキストを指す） */
+  lintedText: string | null;
+  /** 開いた、または保存したローカルファイルの名前 */
+  fileName?: string;
+  /** File System Access API のハンドル。IndexedDB に保存できるため、再読み込みの後も同じファイルに書き戻せる */
+  fileHandle?: FileSystemFileHandle;
+  /** 作成日時（一覧の並び順に使う） */
+  createdAt: number;
+}
+
+export interface WorkspaceState {
+  activeId: string;
+  documents: WorkspaceDocument[];
+}
+
+const DB_NAME = "textlint-workspace";
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = "documents";
+// アクティブな文書のIDなど、文書以外の値
+const META_STORE = "meta";
+const ACTIVE_ID_KEY = "activeId";
+
+// 1つの文書だけを保存していたころの localStorage のキー
+const LEGACY_TEXT_KEY = "textlint-text";
+const LEGACY_FORMAT_KEY = "textlint-format";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(DOCUMENTS_STORE, { keyPath: "id" });
+      db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // 開けなかった場合は次の呼び出しでやり直す
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+export function createDocument(
+  overrides: Partial<WorkspaceDocument> = {}
+): WorkspaceDocument {
+  const createdAt = Date.now();
+  return {
+    id: `doc-${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: "無題の文書",
+    text: "",
+    format: "text",
+    lintResult: null,
+    lintedText: null,
+    createdAt,
+    ...overrides,
+  };
+}
+
+// 初回起動時の文書。以前の localStorage のテキストがあれば引き継ぐ
+function createInitialDocument(): WorkspaceDocument {
+  return createDocument({
+    text: localStorage.getItem(LEGACY_TEXT_KEY) ?? "",
+    format:
+      localStorage.getItem(LEGACY_FORMAT_KEY) === "markdown"
+        ? "markdown"
+        : "text",
+  });
+}
+
+/** ワークスペースを読み込む。文書が1つもなければ作成して保存する */
+export async function loadWorkspace(): Promise<WorkspaceState> {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENTS_STORE, META_STORE], "readonly");
+  const [documents, activeId] = await Promise.all([
+    promisify<WorkspaceDocument[]>(
+      transaction.objectStore(DOCUMENTS_STORE).getAll()
+    ),
+    promisify<unknown>(transaction.objectStore(META_STORE).get(ACTIVE_ID_KEY)),
+  ]);
+
+  if (documents.length === 0) {
+    const document = createInitialDocument();
+    await saveDocument(document);
+    await saveActiveId(document.id);
+    // 引き継いだ後は以前のキーを残さない
+    localStorage.removeItem(LEGACY_TEXT_KEY);
+    localStorage.removeItem(LEGACY_FORMAT_KEY);
+    return { activeId: document.id, documents: [document] };
+  }
+
+  documents.sort((a, b) => a.createdAt - b.createdAt);
+  return {
+    activeId: documents.some(document => document.id === activeId)
+      ? (activeId as string)
+      : documents[0].id,
+    documents,
+  };
+}
+
+export async function saveDocument(document: WorkspaceDocument): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, "readwrite");
+  transaction.objectStore(DOCUMENTS_STORE).put(document);
+  await completion(transaction);
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, "readwrite");
+  transaction.objectStore(DOCUMENTS_STORE).delete(id);
+  await completion(transaction);
+}
+
+export async function saveActiveId(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, "readwrite");
+  transaction.objectStore(META_STORE).put(id, ACTIVE_ID_KEY);
+  await completion(transaction);
+}
+
+/** ほかの文書と重ならない名前にする（重なる場合は「名前 2」「名前 3」…） */
+export function uniqueDocumentName(
+  name: string,
+  documents: WorkspaceDocument[]
+): string {
+  const names = new Set(documents.map(document => document.name));
+  if (!names.has(name)) return name;
+  let index = 2;
+  while (names.has(`${name} ${index}`)) index++;
+  return `${name} ${index}`;
+}
@@ -1,11 +1,60 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { AlertCircle, AlertTriangle, CheckCircle, Copy, Download, Loader2, Settings, Trash2 } from "lucide-react";
+import { AlertCircle, AlertTriangle, CheckCircle, Info, Copy, Download, ExternalLink, Eye, EyeOff, FileDown, FileText, FileUp, FolderOpen, Loader2, Save, Settings, ShieldCheck, Trash2, Undo2, Wand2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
+import { LintEditor } from "@/components/LintEditor";
+import { RuleOptionsForm } from "@/components/RuleOptionsForm";
+import { AllowlistEditor } from "@/components/AllowlistEditor";
+import { DictionaryEditor } from "@/components/DictionaryEditor";
+import { CustomRuleEditor } from "@/components/CustomRuleEditor";
+import { DocumentSidebar } from "@/components/DocumentSidebar";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
-import { useTextlint } from "@/hooks/useTextlint";
+import { useTextlint, type LintResult, type TextlintMessage } from "@/hooks/useTextlint";
+import { useRuleProfiles } from "@/hooks/useRuleProfiles";
+import { useDismissedMessages } from "@/hooks/useDismissedMessages";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import {
+  FILE_ACCEPT,
+  isWordDocument,
+  pickLocalFiles,
+  readDroppedFiles,
+  readLocalFile,
+  saveLocalFile,
+  supportsFileSystemAccess,
+  textFileName,
+  type OpenedFile,
+} from "@/lib/local-files";
+import { applyFixes } from "@shared/textlint/fixer";
+import { serializeAllowlist } from "@shared/textlint/allowlist";
+import { literalPattern } from "@shared/textlint/pattern";
+import { rebaseMessages } from "@shared/textlint/position";
+import { fingerprintMessages } from "@shared/textlint/fingerprint";
+import { getErrorContext } from "@shared/textlint/context";
+import { FORMATTERS, FORMATTER_NAMES, type FormatterName } from "@shared/textlint/formatters";
+import { createHtmlReport } from "@shared/textlint/report";
+import { DOCUMENT_EXTENSIONS, type AllowlistEntry, type CustomRule, type DictionaryEntry, type DocumentFormat } from "@shared/textlint/types";
+import {
+  RULE_OPTION_SCHEMAS,
+  resolveRuleOptions,
+  type RuleOptions,
+} from "@shared/textlint/rule-options";
+import { PRESET_NAMES, PRESET_RULE_IDS, RULE_CATALOG, type RuleCatalogEntry } from "@shared/textlint/catalog";
+import {
+  isRuleEnabled,
+  parseTextlintrc,
+  ruleSeverity,
+  serializeTextlintrc,
+} from "@shared/textlint/textlintrc";
+import { SEVERITY_LEVELS, type SeverityName } from "@shared/textlint/severity";
+import { customRuleSeverity, resolveRuleSettings, serializeProfile } from "@shared/textlint/profile";
 import { APP_TITLE } from "@/const";
 import { useTheme } from "@/contexts/ThemeContext";
 import {
@@ -16,127 +65,183 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
-type FilterType = 'all' | 'error' | 'warning';
+type FilterType = 'all' | SeverityName;
 
-interface Rule {
-  id: string;
-  name: string;
+type Rule = RuleCatalogEntry & {
   enabled: boolean;
-  category: string;
-}
+  /** Severity after .textlintrc.json and the overrides made in the dialog */
+  currentSeverity: SeverityName;
+};
 
-// Helper function to get text context around an error
-function getErrorContext(text: string, line: number, column: number, contextLength: number = 20): {
-  before: string;
-  error: string;
-  after: string;
-} {
-  const lines = text.split('\n');
-  if (line < 1 || line > lines.length) {
-    return { before: '', error: '', after: '' };
-  }
-
-  const lineText = lines[line - 1];
-  const errorStart = Math.max(0, column - 1);
-  
-  // Find the end of the error word (until space or punctuation)
-  const restOfLine = lineText.substring(errorStart);
-  const wordMatch = restOfLine.match(/^[^\s、。，．！？!?,.　]+/);
-  const errorLength = wordMatch ? wordMatch[0].length : 1;
-  
-  const errorEnd = errorStart + errorLength;
-  
-  // Get context before error
-  const beforeStart = Math.max(0, errorStart - contextLength);
-  const before = (beforeStart > 0 ? '...' : '') + lineText.substring(beforeStart, errorStart);
-  
-  // Get error text
-  const error = lineText.substring(errorStart, errorEnd);
-  
-  // Get context after error
-  const afterEnd = Math.min(lineText.length, errorEnd + contextLength);
-  const after = lineText.substring(errorEnd, afterEnd) + (afterEnd < lineText.length ? '...' : '');
-  
-  return { before, error, after };
-}
+const SEVERITY_LABELS: Record<SeverityName, string> = {
+  error: 'エラー',
+  warning: '警告',
+  info: '情報',
+};
 
 export default function Home() {
-  const [text, setText] = useState(() => {
-    const saved = localStorage.getItem('textlint-text');
-    return saved || '';
-  });
+  // Documents of the workspace, persisted in IndexedDB; the editor shows the active one
+  const {
+    documents,
+    activeDocument,
+    isLoading: isWorkspaceLoading,
+    error: workspaceError,
+    updateDocument,
+    updateActiveDocument,
+    switchDocument,
+    createDocument,
+    duplicateDocument,
+    renameDocument,
+    deleteDocument,
+  } = useWorkspace();
+  const activeDocumentId = activeDocument?.id ?? null;
+  const text = activeDocument?.text ?? '';
+  const format = activeDocument?.format ?? 'text';
+  const setText = useCallback((value: string) => updateActiveDocument({ text: value }), [updateActiveDocument]);
+  const setFormat = useCallback(
+    (value: DocumentFormat) => updateActiveDocument({ format: value }),
+    [updateActiveDocument]
+  );
   const [filter, setFilter] = useState<FilterType>('all');
-  const [rules, setRules] = useState<Rule[]>([
-    // ja-technical-writing rules
-    { id: 'no-exclamation-question-mark', name: '感嘆符・疑問符の禁止', enabled: true, category: 'technical' },
-    { id: 'ja-no-successive-word', name: '連続する単語', enabled: true, category: 'technical' },
-    { id: 'ja-no-redundant-expression', name: '冗長な表現', enabled: true, category: 'technical' },
-    { id: 'ja-no-weak-phrase', name: '弱い表現', enabled: true, category: 'technical' },
-    { id: 'no-doubled-joshi', name: '二重助詞', enabled: true, category: 'technical' },
-    { id: 'ja-no-abusage', name: 'ら抜き言葉', enabled: true, category: 'technical' },
-    // AI writing rules
-    { id: 'no-ai-hype-expressions', name: 'AI的な誇張表現', enabled: true, category: 'ai' },
-    { id: 'no-ai-list-formatting', name: 'AI的なリスト書式', enabled: true, category: 'ai' },
-    { id: 'no-ai-emphasis-patterns', name: 'AI的な強調パターン', enabled: true, category: 'ai' },
-    { id: 'no-ai-colon-continuation', name: 'コロンの使用', enabled: true, category: 'ai' },
-  ]);
+  // Messages dismissed one by one in the active document, remembered by fingerprint across edits and reloads
+  const { dismissed, dismiss, restore, forget: forgetDismissed } = useDismissedMessages(activeDocumentId);
+  // The last document can't be deleted, so its dismissed messages are kept as well
+  const handleDeleteDocument = useCallback((id: string) => {
+    if (documents.length <= 1) return;
+    deleteDocument(id);
+    forgetDismissed(id);
+  }, [documents.length, deleteDocument, forgetDismissed]);
+  const [showDismissed, setShowDismissed] = useState(false);
+  // Rule settings of the active profile, persisted in localStorage
+  const {
+    profiles,
+    activeProfile,
+    settings,
+    updateSettings,
+    switchProfile,
+    createProfile,
+    deleteProfile,
+  } = useRuleProfiles();
+  const [newProfileName, setNewProfileName] = useState('');
+  const rules = useMemo<Rule[]>(() =>
+    RULE_CATALOG.map(rule => ({
+      ...rule,
+      enabled: settings.enabled[rule.id] ?? isRuleEnabled(settings.config, rule.id),
+      currentSeverity: settings.severity[rule.id] ?? ruleSeverity(settings.config, rule.id),
+    })),
+    [settings]
+  );
+  // The CLI resolves exported profiles through the same function, so both lint alike
+  const resolvedSettings = useMemo(() => resolveRuleSettings(settings), [settings]);
+  const lintConfig = resolvedSettings.config;
+  const customRules = resolvedSettings.customRules;
+  // Custom rules are toggled and re-leveled through the same enabled/severity maps as built-in rules
+  const customRuleSeverities = useMemo(() =>
+    Object.fromEntries(settings.customRules.map(rule => [rule.id, customRuleSeverity(settings, rule)] as const)),
+    [settings]
+  );
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [isDraggingConfig, setIsDraggingConfig] = useState(false);
+  const configInputRef = useRef<HTMLInputElement>(null);
   const [selectedErrorIndex, setSelectedErrorIndex] = useState<number | null>(null);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const { lintText, isLoading: isTextlintLoading } = useTextlint();
+  const { lintText, isLoading: isTextlintLoading, error: textlintError } = useTextlint();
   const { theme, toggleTheme } = useTheme();
 
-  // Save text to localStorage
-  useEffect(() => {
-    localStorage.setItem('textlint-text', text);
-  }, [text]);
-
   // Lint text with debounce
-  const [lintResult, setLintResult] = useState<any>(null);
+  const [lintResult, setLintResult] = useState<LintResult | null>(null);
+  // Text the current lintResult was computed from (fix ranges refer to it)
+  const [lintedText, setLintedText] = useState<string | null>(null);
+  // True from the start of a run until the latest run finishes
+  const [isChecking, setIsChecking] = useState(false);
   
   useEffect(() => {
+    if (!activeDocumentId) return;
     if (!text.trim() || isTextlintLoading) {
       setLintResult(null);
+      setIsChecking(false);
+      // An emptied document has no result left to show in the sidebar
+      if (!text.trim()) updateDocument(activeDocumentId, { lintResult: null, lintedText: null });
       return;
     }
 
+    // Cancel the run when the input changes so a slow, stale run never overwrites a newer result
+    const controller = new AbortController();
     const timer = setTimeout(async () => {
-      const result = await lintText(text);
-      setLintResult(result);
+      setIsChecking(true);
+      try {
+        const result = await lintText(
+          text,
+          lintConfig,
+          {
+            ext: DOCUMENT_EXTENSIONS[format],
+            allowlist: settings.allowlist,
+            dictionary: settings.dictionary,
+            customRules,
+          },
+          controller.signal
+        );
+        setLintResult(result);
+        setLintedText(text);
+        updateDocument(activeDocumentId, { lintResult: result, lintedText: text });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // エラー内容は useTextlint の error で表示する
+        console.error('Lint failed:', error);
+      }
+      setIsChecking(false);
     }, 300);
 
-    return () => clearTimeout(timer);
-  }, [text, lintText, isTextlintLoading]);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    activeDocumentId,
+    text,
+    format,
+    lintConfig,
+    settings.allowlist,
+    settings.dictionary,
+    customRules,
+    lintText,
+    isTextlintLoading,
+    updateDocument,
+  ]);
 
-  const scrollToError = useCallback((line: number, column: number, errorIndex: number) => {
+  const scrollToError = useCallback((message: TextlintMessage, errorIndex: number) => {
     if (!textareaRef.current) return;
 
     // Highlight the clicked error
     setSelectedErrorIndex(errorIndex);
     setTimeout(() => setSelectedErrorIndex(null), 2000); // Remove highlight after 2 seconds
 
-    // Calculate character index from line and column
-    const lines = text.split('\n');
-    let charIndex = 0;
-    for (let i = 0; i < line - 1 && i < lines.length; i++) {
-      charIndex += lines[i].length + 1; // +1 for newline
+    // Ranges refer to the linted text; follow edits made since then like the inline highlights do
+    const [rebased] =
+      lintedText === null ? [message] : rebaseMessages(lintedText, text, [message]);
+    if (!rebased) {
+      toast.info('指摘箇所が編集されています。チェックが完了してから選択してください');
+      return;
     }
-    charIndex += column - 1;
 
-    // Find the end of the word to select
-    const restOfLine = lines[line - 1]?.substring(column - 1) || '';
-    const wordMatch = restOfLine.match(/^[^\s、。，．！？!?,.　]+/);
-    const selectionLength = wordMatch ? wordMatch[0].length : 1;
-    
-    // Get selected text
-    const selectedText = text.substring(charIndex, charIndex + selectionLength);
+    const [start, end] = rebased.range;
+    const { line, column } = rebased.loc.start;
     
-    // Focus and select the text
+    // Focus and select exactly the range reported by the rule
     textareaRef.current.focus();
-    textareaRef.current.setSelectionRange(charIndex, charIndex + selectionLength);
+    textareaRef.current.setSelectionRange(start, end);
     
     // Scroll to position
     const lineHeight = 24;
@@ -144,15 +249,198 @@ export default function Home() {
     textareaRef.current.scrollTop = scrollPosition;
     
     // Show toast with selected text
+    const selectedText = message.matchedText;
     const displayText = selectedText.length > 20 ? selectedText.substring(0, 20) + '...' : selectedText;
     toast.info(`行 ${line}, 列 ${column}: "${displayText}" を選択しました`);
-  }, [text]);
+  }, [lintedText, text]);
+
+  // "off" disables the rule; any other level enables it with that severity
+  const setRuleSeverity = useCallback((ruleId: string, value: SeverityName | 'off') => {
+    updateSettings(prev => ({
+      ...prev,
+      enabled: { ...prev.enabled, [ruleId]: value !== 'off' },
+      severity: value === 'off' ? prev.severity : { ...prev.severity, [ruleId]: value },
+    }));
+  }, [updateSettings]);
 
-  const toggleRule = useCallback((ruleId: string) => {
-    setRules(prev => prev.map(rule => 
-      rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule
-    ));
-  }, []);
+  const updateRuleOptions = useCallback((ruleId: string, options: RuleOptions) => {
+    updateSettings(prev => ({ ...prev, options: { ...prev.options, [ruleId]: options } }));
+  }, [updateSettings]);
+
+  const resetRuleOptions = useCallback((ruleId: string) => {
+    updateSettings(prev => {
+      const { [ruleId]: _removed, ...options } = prev.options;
+      return { ...prev, options };
+    });
+  }, [updateSettings]);
+
+  const updateAllowlist = useCallback((allowlist: AllowlistEntry[]) => {
+    updateSettings(prev => ({ ...prev, allowlist }));
+  }, [updateSettings]);
+
+  // Allow the reported text for the rule that reported it
+  const handleAllowTerm = useCallback((message: TextlintMessage) => {
+    // Allow the term as written, even if it looks like a /pattern/flags regex
+    const pattern = literalPattern(message.matchedText);
+    updateSettings(prev => {
+      const exists = prev.allowlist.some(
+        entry => entry.pattern === pattern && entry.ruleIds.length === 1 && entry.ruleIds[0] === message.ruleId
+      );
+      if (exists) return prev;
+      return { ...prev, allowlist: [...prev.allowlist, { pattern, ruleIds: [message.ruleId] }] };
+    });
+    toast.success(`「${message.matchedText}」を ${message.ruleId} で許可しました`);
+  }, [updateSettings]);
+
+  const updateDictionary = useCallback((dictionary: DictionaryEntry[]) => {
+    updateSettings(prev => ({ ...prev, dictionary }));
+  }, [updateSettings]);
+
+  // Settings of removed custom rules are dropped so a new rule with the same id starts fresh
+  const updateCustomRules = useCallback((customRules: CustomRule[]) => {
+    updateSettings(prev => {
+      const removed = prev.customRules
+        .map(rule => rule.id)
+        .filter(id => !customRules.some(rule => rule.id === id));
+      const omitRemoved = <T,>(record: Record<string, T>) =>
+        Object.fromEntries(Object.entries(record).filter(([id]) => !removed.includes(id)));
+      return {
+        ...prev,
+        customRules,
+        enabled: omitRemoved(prev.enabled),
+        severity: omitRemoved(prev.severity),
+      };
+    });
+  }, [updateSettings]);
+
+  const handleExportAllowlist = useCallback(() => {
+    const blob = new Blob([serializeAllowlist(settings.allowlist)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'allowlist.json';
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('allowlist.json を書き出しました');
+  }, [settings.allowlist]);
+
+  const handleCreateProfile = useCallback(() => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    createProfile(name);
+    setNewProfileName('');
+    toast.success(`プロファイル「${name}」を作成しました`);
+  }, [newProfileName, createProfile]);
+
+  const handleImportConfig = useCallback(async (file: File) => {
+    try {
+      const { config, unsupported } = parseTextlintrc(await file.text());
+      // Toggles and options now come from the imported file
+      updateSettings(prev => ({
+        config,
+        enabled: {},
+        options: {},
+        severity: {},
+        allowlist: prev.allowlist,
+        dictionary: prev.dictionary,
+        customRules: prev.customRules,
+      }));
+      setImportWarnings(unsupported);
+      if (unsupported.length > 0) {
+        toast.warning(`${file.name} を読み込みました（未対応の設定が${unsupported.length}件あります）`);
+      } else {
+        toast.success(`${file.name} を読み込みました`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [updateSettings]);
+
+  const handleExportConfig = useCallback(() => {
+    const blob = new Blob([serializeTextlintrc(lintConfig)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = '.textlintrc.json';
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('.textlintrc.json を書き出しました');
+  }, [lintConfig]);
+
+  const handleExportProfile = useCallback(() => {
+    const blob = new Blob([serializeProfile(activeProfile.name, settings)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${activeProfile.name}.profile.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success(`プロファイル「${activeProfile.name}」を書き出しました`);
+  }, [activeProfile.name, settings]);
+
+  // Each opened file becomes a new document; the extension picks plain text or Markdown
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  const openFiles = useCallback((files: OpenedFile[]) => {
+    for (const file of files) {
+      createDocument({ name: file.name, text: file.text, format: file.format, fileName: file.fileName, fileHandle: file.handle });
+    }
+    if (files.length > 0) {
+      toast.success(files.length === 1 ? `${files[0].name} を開きました` : `${files.length}個のファイルを開きました`);
+    }
+    if (files.some(file => isWordDocument(file.name))) {
+      toast.info('Word文書は本文のテキストだけを読み込みました。保存するとテキストファイルになります');
+    }
+  }, [createDocument]);
+
+  const handleOpenFile = useCallback(async () => {
+    // Without the File System Access API, files are read through a plain file input and saved as downloads
+    if (!supportsFileSystemAccess()) {
+      fileInputRef.current?.click();
+      return;
+    }
+    try {
+      openFiles(await pickLocalFiles());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [openFiles]);
+
+  const handleFileInput = useCallback(async (fileList: FileList) => {
+    try {
+      openFiles(await Promise.all(Array.from(fileList).map(file => readLocalFile(file))));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [openFiles]);
+
+  const handleDropFiles = useCallback(async (dataTransfer: DataTransfer) => {
+    try {
+      const { files, rejected } = await readDroppedFiles(dataTransfer);
+      openFiles(files);
+      if (rejected.length > 0) {
+        toast.warning(`${rejected.join(', ')} は開けません（${FILE_ACCEPT.split(',').join('・')} のファイルを開けます）`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [openFiles]);
+
+  const handleSaveFile = useCallback(async () => {
+    if (!activeDocument) return;
+    try {
+      const saved = await saveLocalFile(text, {
+        name: activeDocument.fileName ?? textFileName(activeDocument.name, format),
+        handle: activeDocument.fileHandle,
+      });
+      if (!saved) return;
+      updateDocument(activeDocument.id, { fileName: saved.name, fileHandle: saved.handle });
+      toast.success(saved.handle ? `${saved.name} に保存しました` : `${saved.name} をダウンロードしました`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  }, [activeDocument, format, text, updateDocument]);
 
   const handleCopy = useCallback(() => {
     navigator.clipboard.writeText(text);
@@ -163,53 +451,179 @@ export default function Home() {
     setText('');
     setLintResult(null);
     toast.info('テキストをクリアしました');
-  }, []);
+  }, [setText]);
 
-  const handleExportJSON = useCallback(() => {
-    if (!lintResult) return;
-    
-    const json = JSON.stringify(lintResult, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
+  // Stack of texts before each fix operation, used to undo fixes
+  const [fixHistory, setFixHistory] = useState<{ before: string; after: string }[]>([]);
+  const lastFix = fixHistory[fixHistory.length - 1];
+  const canUndoFix = lastFix !== undefined && lastFix.after === text;
+
+  // Show the last result saved with a document until its first run finishes; fixes are undone per document.
+  // Only when another document is opened, not on every edit, so remember which document was shown last
+  const shownDocumentIdRef = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (shownDocumentIdRef.current === activeDocumentId) return;
+    shownDocumentIdRef.current = activeDocumentId;
+    setLintResult(activeDocument?.lintResult ?? null);
+    setLintedText(activeDocument?.lintedText ?? null);
+    setFixHistory([]);
+  }, [activeDocumentId, activeDocument]);
+
+  const handleUndoFix = useCallback(() => {
+    if (!canUndoFix) return;
+    setText(lastFix.before);
+    setFixHistory(prev => prev.slice(0, -1));
+    toast.info('修正を元に戻しました');
+  }, [canUndoFix, lastFix]);
+
+  const handleApplyFixes = useCallback((messages: TextlintMessage[]) => {
+    // Fix ranges are only valid for the text that was linted
+    if (lintedText !== text) {
+      toast.error('チェックが完了してから修正してください');
+      return;
+    }
+
+    const { output, applied, remaining } = applyFixes(text, messages);
+    if (applied.length === 0) return;
+
+    setText(output);
+    setFixHistory(prev => [...prev, { before: text, after: output }]);
+
+    const skipped = remaining.filter(msg => msg.fix).length;
+    toast.success(
+      `${applied.length}件を修正しました` +
+        (skipped > 0 ? `（範囲が重なる${skipped}件は再チェック後に修正できます）` : '')
+    );
+  }, [text, lintedText]);
+
+  // Stable fingerprints of the messages, computed from the text they were reported on
+  const fingerprints = useMemo(() => {
+    if (!lintResult || lintedText === null) return new Map<TextlintMessage, string>();
+    const values = fingerprintMessages(lintedText, lintResult.messages);
+    return new Map(lintResult.messages.map((message, i) => [message, values[i]]));
+  }, [lintResult, lintedText]);
+
+  const isMessageDismissed = useCallback(
+    (message: TextlintMessage) => dismissed.has(fingerprints.get(message) ?? ''),
+    [dismissed, fingerprints]
+  );
+
+  // Messages of enabled rules that are not dismissed, before the severity filter
+  const countedMessages = useMemo(() =>
+    (lintResult?.messages ?? []).filter(msg => {
+      const rule = rules.find(r => r.id === msg.ruleId);
+      return (!rule || rule.enabled) && !isMessageDismissed(msg);
+    }),
+    [lintResult, rules, isMessageDismissed]
+  );
+
+  // Standalone HTML for writers; it prints to PDF through its own print stylesheet
+  const handleExportReport = useCallback(() => {
+    if (!lintResult || lintedText === null) return;
+
+    const documentName = activeDocument?.fileName ?? activeDocument?.name ?? 'document';
+    const html = createHtmlReport({
+      documentName,
+      text: lintedText,
+      messages: countedMessages,
+    });
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `textlint-result-${new Date().toISOString().slice(0, 10)}.json`;
+    a.download = `textlint-report-${new Date().toISOString().slice(0, 10)}.html`;
     a.click();
     URL.revokeObjectURL(url);
-    toast.success('JSON形式でエクスポートしました');
-  }, [lintResult]);
+    toast.success('レポートを書き出しました（ブラウザで開いて印刷するとPDFとして保存できます）');
+  }, [lintResult, lintedText, activeDocument?.fileName, activeDocument?.name, countedMessages]);
 
   const filteredMessages = useMemo(() => {
     if (!lintResult?.messages) return [];
     
     const messages = lintResult.messages;
     
-    // Filter by enabled rules
-    const ruleFiltered = messages.filter((msg: any) => {
+    // Filter by enabled rules and dismissed messages
+    const ruleFiltered = messages.filter(msg => {
       const rule = rules.find(r => r.id === msg.ruleId);
-      return !rule || rule.enabled;
+      return (!rule || rule.enabled) && (showDismissed || !isMessageDismissed(msg));
     });
     
     // Filter by severity
-    if (filter === 'error') {
-      return ruleFiltered.filter((msg: any) => msg.severity === 2);
-    } else if (filter === 'warning') {
-      return ruleFiltered.filter((msg: any) => msg.severity === 1);
+    if (filter !== 'all') {
+      return ruleFiltered.filter(msg => msg.severity === SEVERITY_LEVELS[filter]);
     }
     
     return ruleFiltered;
-  }, [lintResult, filter, rules]);
+  }, [lintResult, filter, rules, showDismissed, isMessageDismissed]);
+
+  // Dismissed messages stay in the list only while "show dismissed" is on; they are
+  // never counted, underlined or fixed
+  const activeMessages = useMemo(() =>
+    filteredMessages.filter(msg => !isMessageDismissed(msg)),
+    [filteredMessages, isMessageDismissed]
+  );
+
+  const dismissedCount = useMemo(() =>
+    lintResult?.messages.filter(isMessageDismissed).length ?? 0,
+    [lintResult, isMessageDismissed]
+  );
+
+  const fixableMessages = useMemo(() =>
+    activeMessages.filter(msg => msg.fix),
+    [activeMessages]
+  );
+
+  // Keep inline highlights aligned with the text while the next lint is pending
+  const highlightedMessages = useMemo(() => {
+    if (lintedText === null || lintedText === text) return activeMessages;
+    return rebaseMessages(lintedText, text, activeMessages);
+  }, [activeMessages, lintedText, text]);
 
   const errorCount = useMemo(() => 
-    filteredMessages.filter((msg: any) => msg.severity === 2).length,
-    [filteredMessages]
+    countedMessages.filter(msg => msg.severity === SEVERITY_LEVELS.error).length,
+    [countedMessages]
   );
 
   const warningCount = useMemo(() => 
-    filteredMessages.filter((msg: any) => msg.severity === 1).length,
-    [filteredMessages]
+    countedMessages.filter(msg => msg.severity === SEVERITY_LEVELS.warning).length,
+    [countedMessages]
   );
 
+  const infoCount = useMemo(() => 
+    countedMessages.filter(msg => msg.severity === SEVERITY_LEVELS.info).length,
+    [countedMessages]
+  );
+
+  const handleExport = useCallback((name: FormatterName) => {
+    if (!lintResult) return;
+
+    // Export what the panel shows: no dismissed messages or disabled rules
+    const result: LintResult = {
+      ...lintResult,
+      messages: countedMessages,
+      errorCount,
+      warningCount,
+      infoCount,
+    };
+    const formatter = FORMATTERS[name];
+    const output = formatter.format([
+      { filePath: activeDocument?.fileName ?? activeDocument?.name ?? 'document', result },
+    ]);
+    const blob = new Blob([formatter.bom ? '\uFEFF' : '', output], { type: `${formatter.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `textlint-result-${new Date().toISOString().slice(0, 10)}${formatter.extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success(`${formatter.label}形式でエクスポートしました`);
+  }, [lintResult, countedMessages, errorCount, warningCount, infoCount, activeDocument?.fileName, activeDocument?.name]);
+
+  // Messages hidden by <!-- textlint-disable --> comments, per comment
+  const suppressions = lintResult?.suppressions ?? [];
+  const suppressedCount = suppressions.reduce((sum, suppression) => sum + suppression.count, 0);
+  const allowedCount = lintResult?.allowedCount ?? 0;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -221,54 +635,221 @@ export default function Home() {
               <p className="text-sm text-muted-foreground">日本語文書チェッカー</p>
             </div>
             <div className="flex items-center gap-2">
+              <Select value={activeProfile.id} onValueChange={switchProfile}>
+                <SelectTrigger className="w-40" aria-label="ルール設定のプロファイル">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Dialog>
                 <DialogTrigger asChild>
                   <Button variant="outline" size="icon" aria-label="ルール設定">
                     <Settings className="h-5 w-5" />
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                <DialogContent
+                  className={`max-w-2xl max-h-[80vh] overflow-y-auto ${
+                    isDraggingConfig ? 'ring-2 ring-primary' : ''
+                  }`}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDraggingConfig(true);
+                  }}
+                  onDragLeave={() => setIsDraggingConfig(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDraggingConfig(false);
+                    const file = e.dataTransfer.files[0];
+                    if (file) handleImportConfig(file);
+                  }}
+                >
                   <DialogHeader>
                     <DialogTitle>ルール設定</DialogTitle>
                     <DialogDescription>
-                      個別のルールを有効化/無効化できます
+                      個別のルールの有効化/無効化と、オプションの変更ができます。.textlintrc.json をドロップして読み込むこともできます
                     </DialogDescription>
                   </DialogHeader>
-                  <div className="space-y-6 py-4">
-                    <div>
-                      <h3 className="text-sm font-semibold mb-3">技術文書ルール</h3>
-                      <div className="space-y-3">
-                        {rules.filter(r => r.category === 'technical').map(rule => (
-                          <div key={rule.id} className="flex items-center justify-between">
-                            <Label htmlFor={rule.id} className="text-sm cursor-pointer">
-                              {rule.name}
-                            </Label>
-                            <Switch
-                              id={rule.id}
-                              checked={rule.enabled}
-                              onCheckedChange={() => toggleRule(rule.id)}
-                            />
-                          </div>
-                        ))}
-                      </div>
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">
+                      プロファイル: {activeProfile.name}
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                      変更はこのプロファイルに自動で保存されます
+                    </p>
+                    <div className="flex gap-2">
+                      <Input
+                        value={newProfileName}
+                        onChange={(e) => setNewProfileName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleCreateProfile();
+                        }}
+                        placeholder="新しいプロファイル名"
+                        className="h-8"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleCreateProfile}
+                        disabled={!newProfileName.trim()}
+                      >
+                        現在の設定で作成
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleExportProfile}>
+                        <FileDown className="h-4 w-4 mr-1" />
+                        書き出す
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteProfile(activeProfile.id)}
+                        disabled={profiles.length <= 1}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        削除
+                      </Button>
                     </div>
-                    <div>
-                      <h3 className="text-sm font-semibold mb-3">AI文書ルール</h3>
-                      <div className="space-y-3">
-                        {rules.filter(r => r.category === 'ai').map(rule => (
-                          <div key={rule.id} className="flex items-center justify-between">
-                            <Label htmlFor={rule.id} className="text-sm cursor-pointer">
-                              {rule.name}
-                            </Label>
-                            <Switch
-                              id={rule.id}
-                              checked={rule.enabled}
-                              onCheckedChange={() => toggleRule(rule.id)}
-                            />
-                          </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      ref={configInputRef}
+                      type="file"
+                      accept=".json,.textlintrc,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportConfig(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => configInputRef.current?.click()}>
+                      <FileUp className="h-4 w-4 mr-1" />
+                      .textlintrc を読み込む
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleExportConfig}>
+                      <FileDown className="h-4 w-4 mr-1" />
+                      .textlintrc を書き出す
+                    </Button>
+                  </div>
+                  {importWarnings.length > 0 && (
+                    <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+                      <p className="font-medium">次の設定はこのチェッカーでは使えないため読み飛ばしました</p>
+                      <ul className="mt-1 list-disc pl-5 text-xs text-muted-foreground">
+                        {importWarnings.map(name => (
+                          <li key={name}>{name}</li>
                         ))}
-                      </div>
+                      </ul>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold">許可する語</h3>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleExportAllowlist}
+                        disabled={settings.allowlist.length === 0}
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        書き出す
+                      </Button>
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      製品名など、指摘しない語を登録します。/正規表現/ の形式でも書けます
+                    </p>
+                    <AllowlistEditor value={settings.allowlist} onChange={updateAllowlist} />
+                  </div>
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">表記ゆれ辞書（prh）</h3>
+                    <p className="text-xs text-muted-foreground">
+                      表記ゆれを見つけると、期待する表記への置き換えを自動修正として提案します
+                    </p>
+                    <DictionaryEditor value={settings.dictionary} onChange={updateDictionary} />
+                  </div>
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">独自ルール</h3>
+                    <p className="text-xs text-muted-foreground">
+                      チーム固有の表記を、語または /正規表現/ で検出します。ルールIDは無効化コメントや許可する語でも使えます
+                    </p>
+                    <CustomRuleEditor
+                      value={settings.customRules}
+                      onChange={updateCustomRules}
+                      severities={customRuleSeverities}
+                      onSeverityChange={setRuleSeverity}
+                    />
+                  </div>
+                  <div className="space-y-6 py-4">
+                    {Object.entries(PRESET_NAMES).map(([preset, presetName]) => (
+                      <div key={preset}>
+                        <h3 className="text-sm font-semibold mb-3">{presetName}</h3>
+                        <div className="space-y-4">
+                          {rules.filter(r => r.preset === preset).map(rule => (
+                            <div key={rule.id} className="space-y-2">
+                              <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0 space-y-1">
+                                  <Label htmlFor={rule.id} className="text-sm cursor-pointer">
+                                    {rule.name}
+                                  </Label>
+                                  <p className="text-xs text-muted-foreground">{rule.description}</p>
+                                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                    <Badge variant="outline" className="text-xs">
+                                      既定: {SEVERITY_LABELS[rule.severity]}
+                                    </Badge>
+                                    <a
+                                      href={rule.docsUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="inline-flex items-center gap-1 hover:underline"
+                                    >
+                                      {rule.id}
+                                      <ExternalLink className="h-3 w-3" />
+                                    </a>
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                  {settings.options[rule.id] && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => resetRuleOptions(rule.id)}
+                                    >
+                                      既定値に戻す
+                                    </Button>
+                                  )}
+                                  <Select
+                                    value={rule.enabled ? rule.currentSeverity : 'off'}
+                                    onValueChange={(value) => setRuleSeverity(rule.id, value as SeverityName | 'off')}
+                                  >
+                                    <SelectTrigger id={rule.id} size="sm" className="w-24">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="error">{SEVERITY_LABELS.error}</SelectItem>
+                                      <SelectItem value="warning">{SEVERITY_LABELS.warning}</SelectItem>
+                                      <SelectItem value="info">{SEVERITY_LABELS.info}</SelectItem>
+                                      <SelectItem value="off">オフ</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              </div>
+                              {rule.enabled && RULE_OPTION_SCHEMAS[rule.id] && (
+                                <RuleOptionsForm
+                                  ruleId={rule.id}
+                                  value={resolveRuleOptions(settings.config, rule.id, settings.options[rule.id])}
+                                  onChange={(options) => updateRuleOptions(rule.id, options)}
+                                />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </DialogContent>
               </Dialog>
@@ -287,14 +868,95 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="container py-6">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-[14rem_minmax(0,2fr)_minmax(0,1fr)] gap-6">
+          {/* Document Sidebar */}
+          <aside>
+            <DocumentSidebar
+              documents={documents}
+              activeId={activeDocumentId}
+              onSelect={switchDocument}
+              onCreate={createDocument}
+              onRename={renameDocument}
+              onDuplicate={duplicateDocument}
+              onDelete={handleDeleteDocument}
+            />
+            {workspaceError && (
+              <p className="mt-2 text-xs text-destructive">
+                文書を保存できません（{workspaceError}）。ページを閉じると編集内容は失われます
+              </p>
+            )}
+          </aside>
+
           {/* Text Input Area */}
-          <div className="lg:col-span-2">
-            <Card>
+          <div>
+            <Card
+              className={isDraggingFile ? 'ring-2 ring-primary' : undefined}
+              // Only file drags are taken over; dragging text within the editor keeps working
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+              }}
+              onDragLeave={() => setIsDraggingFile(false)}
+              onDrop={(e) => {
+                setIsDraggingFile(false);
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                handleDropFiles(e.dataTransfer);
+              }}
+            >
               <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle>テキスト入力</CardTitle>
-                  <div className="flex gap-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle>テキスト入力</CardTitle>
+                    {activeDocument?.fileName && (
+                      <p className="mt-1 truncate text-xs text-muted-foreground" title={activeDocument.fileName}>
+                        {activeDocument.fileName}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={FILE_ACCEPT}
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        if (e.target.files) handleFileInput(e.target.files);
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleOpenFile}
+                      disabled={isWorkspaceLoading}
+                    >
+                      <FolderOpen className="h-4 w-4 mr-1" />
+                      開く
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSaveFile}
+                      disabled={isWorkspaceLoading}
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      保存
+                    </Button>
+                    <Select
+                      value={format}
+                      onValueChange={(value) => setFormat(value as DocumentFormat)}
+                    >
+                      <SelectTrigger size="sm" aria-label="文書形式">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="text">プレーンテキスト</SelectItem>
+                        <SelectItem value="markdown">Markdown</SelectItem>
+                      </SelectContent>
+                    </Select>
                     <Button
                       variant="outline"
                       size="sm"
@@ -317,18 +979,25 @@ export default function Home() {
                 </div>
               </CardHeader>
               <CardContent>
-                <Textarea
+                <LintEditor
                   ref={textareaRef}
                   value={text}
+                  messages={highlightedMessages}
                   onChange={(e) => setText(e.target.value)}
+                  disabled={isWorkspaceLoading}
                   placeholder="ここに文章を入力してください..."
                   className="min-h-[400px] text-base font-sans resize-none"
-                  disabled={isTextlintLoading}
                 />
                 {isTextlintLoading && (
                   <div className="mt-4 flex items-center justify-center text-muted-foreground">
                     <Loader2 className="h-5 w-5 animate-spin mr-2" />
-                    <span>Textlintを初期化中...</span>
+                    <span>Textlintを初期化中...（辞書を読み込んでいます）</span>
+                  </div>
+                )}
+                {textlintError && (
+                  <div className="mt-4 flex items-center justify-center text-destructive text-sm">
+                    <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                    <span>Textlintの実行に失敗しました: {textlintError}</span>
                   </div>
                 )}
               </CardContent>
@@ -340,16 +1009,36 @@ export default function Home() {
             <Card className="sticky top-6">
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle>チェック結果</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <CardTitle>チェック結果</CardTitle>
+                    {isChecking && (
+                      <span className="flex items-center text-xs text-muted-foreground" role="status">
+                        <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                        チェック中…
+                      </span>
+                    )}
+                  </div>
                   {lintResult && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={handleExportJSON}
-                    >
-                      <Download className="h-4 w-4 mr-1" />
-                      JSON
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <Download className="h-4 w-4 mr-1" />
+                          エクスポート
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {FORMATTER_NAMES.map(name => (
+                          <DropdownMenuItem key={name} onSelect={() => handleExport(name)}>
+                            {FORMATTERS[name].label}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={handleExportReport}>
+                          <FileText className="h-4 w-4" />
+                          レポート出力（HTML・PDF）
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   )}
                 </div>
               </CardHeader>
@@ -371,7 +1060,7 @@ export default function Home() {
                         onClick={() => setFilter('all')}
                         className="flex-1"
                       >
-                        すべて表示
+                        すべて
                       </Button>
                       <Button
                         variant={filter === 'error' ? 'default' : 'outline'}
@@ -379,7 +1068,7 @@ export default function Home() {
                         onClick={() => setFilter('error')}
                         className="flex-1"
                       >
-                        エラーのみ
+                        エラー
                       </Button>
                       <Button
                         variant={filter === 'warning' ? 'default' : 'outline'}
@@ -387,12 +1076,20 @@ export default function Home() {
                         onClick={() => setFilter('warning')}
                         className="flex-1"
                       >
-                        警告のみ
+                        警告
+                      </Button>
+                      <Button
+                        variant={filter === 'info' ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setFilter('info')}
+                        className="flex-1"
+                      >
+                        情報
                       </Button>
                     </div>
 
                     {/* Stats */}
-                    <div className="grid grid-cols-2 gap-3">
+                    <div className="grid grid-cols-3 gap-3">
                       <div className="bg-destructive/10 rounded-lg p-4 text-center">
                         <div className="text-3xl font-bold text-destructive">{errorCount}</div>
                         <div className="text-sm text-muted-foreground">エラー</div>
@@ -401,14 +1098,85 @@ export default function Home() {
                         <div className="text-3xl font-bold text-yellow-600 dark:text-yellow-500">{warningCount}</div>
                         <div className="text-sm text-muted-foreground">警告</div>
                       </div>
+                      <div className="bg-blue-500/10 rounded-lg p-4 text-center">
+                        <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">{infoCount}</div>
+                        <div className="text-sm text-muted-foreground">情報</div>
+                      </div>
                     </div>
 
+                    {/* Suppressed Messages */}
+                    {(suppressions.length > 0 || allowedCount > 0) && (
+                      <div className="rounded-lg border border-border p-3 space-y-1">
+                        {allowedCount > 0 && (
+                          <div className="flex items-center text-sm text-muted-foreground">
+                            <ShieldCheck className="h-4 w-4 mr-1" />
+                            許可リストで除外: {allowedCount}件
+                          </div>
+                        )}
+                        {suppressions.length > 0 && (
+                          <div className="flex items-center text-sm text-muted-foreground">
+                            <EyeOff className="h-4 w-4 mr-1" />
+                            無効化コメントで除外: {suppressedCount}件
+                          </div>
+                        )}
+                        <ul className="space-y-0.5 text-xs text-muted-foreground">
+                          {suppressions.map(suppression => (
+                            <li key={`${suppression.line}-${suppression.directive}`} className="flex justify-between gap-2">
+                              <span className="font-mono truncate">
+                                {suppression.line}行目: {suppression.directive}
+                              </span>
+                              <span className="flex-shrink-0">{suppression.count}件</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Auto Fix */}
+                    {(fixableMessages.length > 0 || canUndoFix) && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground flex-1">
+                          自動修正できる指摘: {fixableMessages.length}件
+                        </span>
+                        {canUndoFix && (
+                          <Button variant="outline" size="sm" onClick={handleUndoFix}>
+                            <Undo2 className="h-4 w-4 mr-1" />
+                            元に戻す
+                          </Button>
+                        )}
+                        {fixableMessages.length > 0 && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleApplyFixes(fixableMessages)}
+                            disabled={lintedText !== text}
+                          >
+                            <Wand2 className="h-4 w-4 mr-1" />
+                            すべて修正
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Dismissed Messages Toggle */}
+                    {dismissedCount > 0 && (
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="show-dismissed" className="text-sm font-normal text-muted-foreground">
+                          非表示にした指摘を表示（{dismissedCount}件）
+                        </Label>
+                        <Switch
+                          id="show-dismissed"
+                          checked={showDismissed}
+                          onCheckedChange={setShowDismissed}
+                        />
+                      </div>
+                    )}
+
                     {/* Messages List */}
                     {filteredMessages.length === 0 ? (
                       <div className="flex flex-col items-center justify-center py-8 text-center">
                         <CheckCircle className="h-12 w-12 mb-3 text-green-500" />
                         <p className="font-medium text-foreground">
-                          {filter === 'all' ? '問題は見つかりませんでした' : `${filter === 'error' ? 'エラー' : '警告'}は見つかりませんでした`}
+                          {filter === 'all' ? '問題は見つかりませんでした' : `${SEVERITY_LABELS[filter]}は見つかりませんでした`}
                         </p>
                         <p className="text-sm text-muted-foreground mt-1">
                           文章は適切に書かれています
@@ -416,23 +1184,27 @@ export default function Home() {
                       </div>
                     ) : (
                       <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                        {filteredMessages.map((message: any, index: number) => {
-                          const context = getErrorContext(text, message.line, message.column);
+                        {filteredMessages.map((message, index) => {
+                          const context = getErrorContext(lintedText ?? text, message.range);
                           const isSelected = selectedErrorIndex === index;
+                          const fingerprint = fingerprints.get(message) ?? String(index);
+                          const isDismissed = dismissed.has(fingerprint);
                           
                           return (
                             <div
-                              key={index}
+                              key={fingerprint}
                               className={`border rounded-lg p-3 cursor-pointer transition-all ${
                                 isSelected 
                                   ? 'border-primary bg-primary/10 shadow-md' 
                                   : 'border-border hover:bg-accent/50'
-                              }`}
-                              onClick={() => scrollToError(message.line, message.column, index)}
+                              } ${isDismissed ? 'opacity-60' : ''}`}
+                              onClick={() => scrollToError(message, index)}
                             >
                               <div className="flex items-start gap-2">
-                                {message.severity === 2 ? (
+                                {message.severity === SEVERITY_LEVELS.error ? (
                                   <AlertCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+                                ) : message.severity === SEVERITY_LEVELS.info ? (
+                                  <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
                                 ) : (
                                   <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-500 mt-0.5 flex-shrink-0" />
                                 )}
@@ -461,6 +1233,53 @@ export default function Home() {
                                         {message.ruleId}
                                       </span>
                                     )}
+                                    <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+                                      {message.matchedText.trim() && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          className="h-6 px-2 text-xs"
+                                          title={`「${message.matchedText}」を ${message.ruleId} で指摘しないようにします`}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleAllowTerm(message);
+                                          }}
+                                        >
+                                          <ShieldCheck className="h-3 w-3 mr-1" />
+                                          この語を許可
+                                        </Button>
+                                      )}
+                                      {message.fix && !isDismissed && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          className="h-6 px-2 text-xs"
+                                          title={`修正後: ${message.fix.text}`}
+                                          disabled={lintedText !== text}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleApplyFixes([message]);
+                                          }}
+                                        >
+                                          <Wand2 className="h-3 w-3 mr-1" />
+                                          修正
+                                        </Button>
+                                      )}
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-6 w-6"
+                                        aria-label={isDismissed ? 'この指摘を再表示' : 'この指摘を非表示'}
+                                        title={isDismissed ? 'この指摘を再表示' : 'この指摘を非表示'}
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          if (isDismissed) restore(fingerprint);
+                                          else dismiss(fingerprint);
+                                        }}
+                                      >
+                                        {isDismissed ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                                      </Button>
+                                    </div>
                                   </div>
                                 </div>
                               </div>
@@ -491,7 +1310,7 @@ export default function Home() {
             を使用しています
           </p>
           <p className="mt-1">
-            preset-ja-technical-writing（23ルール）と preset-ai-writing（5ルール）を適用
+            preset-ja-technical-writing（{PRESET_RULE_IDS['preset-ja-technical-writing'].length}ルール）と preset-ai-writing（{PRESET_RULE_IDS['@textlint-ja/preset-ai-writing'].length}ルール）を適用
           </p>
         </div>
       </main>
@@ -0,0 +1,42 @@
+// File System Access API のうち、TypeScriptの lib.dom にまだ含まれていない部分（Chromium系のブラウザだけが対応）
+
+interface FilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string[]>;
+}
+
+interface OpenFilePickerOptions {
+  multiple?: boolean;
+  types?: FilePickerAcceptType[];
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: FilePickerAcceptType[];
+}
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: "read" | "readwrite";
+}
+
+interface FileSystemHandle {
+  queryPermission?(
+    descriptor?: FileSystemHandlePermissionDescriptor
+  ): Promise<PermissionState>;
+  requestPermission?(
+    descriptor?: FileSystemHandlePermissionDescriptor
+  ): Promise<PermissionState>;
+}
+
+interface DataTransferItem {
+  getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;
+}
+
+interface Window {
+  showOpenFilePicker?(
+    options?: OpenFilePickerOptions
+  ): Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker?(
+    options?: SaveFilePickerOptions
+  ): Promise<FileSystemFileHandle>;
+}
@@ -17,3 +17,6 @@ declare module '@textlint/textlint-plugin-text' {
   const plugin: any;
   export default plugin;
 }
+
+/** vite.config.ts の define で埋め込まれる `.textlintrc.json` の内容 */
+declare const __TEXTLINT_CONFIG__: import('@shared/textlint/types').TextlintConfig;
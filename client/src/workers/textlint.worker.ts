@@ -0,0 +1,87 @@
+import { getTokenizer } from "kuromojin";
+import type { LintOptions } from "@shared/textlint/engine";
+import { createIncrementalLinter } from "@shared/textlint/incremental";
+import type { LintResult, TextlintConfig } from "@shared/textlint/types";
+
+// kuromoji辞書の配置場所。`pnpm dict` で client/public/dict にコピーした辞書をアプリと同じ場所から読み込む
+const DICTIONARY_PATH = `${import.meta.env.BASE_URL}dict`;
+
+/** Workerから指定できるlintオプション（configBaseDir はWorker側で決める） */
+export type WorkerLintOptions = Pick<
+  LintOptions,
+  "ext" | "allowlist" | "dictionary" | "customRules"
+>;
+
+export type TextlintWorkerRequest =
+  | {
+      type: "lint";
+      id: number;
+      text: string;
+      /** `.textlintrc.json` に画面で編集したルールオプションを反映した設定 */
+      config: TextlintConfig;
+      options: WorkerLintOptions;
+    }
+  /** 結果が不要になったチェックを中止する。中止したチェックには応答しない */
+  | { type: "cancel"; id: number };
+
+export type TextlintWorkerResponse =
+  | { type: "ready" }
+  | { type: "init-error"; message: string }
+  | { type: "result"; id: number; result: LintResult }
+  | { type: "error"; id: number; message: string };
+
+// kuromojinはブラウザでは window.kuromojin.dicPath から辞書の場所を読むため、
+// Worker内でも同じ形で公開しておく（各ルールは引数なしで tokenize を呼ぶ）
+Object.assign(self, { window: self, kuromojin: { dicPath: DICTIONARY_PATH } });
+
+function post(response: TextlintWorkerResponse) {
+  self.postMessage(response);
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// 辞書の読み込みが初期化処理の大部分を占めるため、起動直後に開始する
+const ready = getTokenizer({ dicPath: DICTIONARY_PATH });
+
+// 入力のたびに文書全体をチェックし直さないよう、段落ごとの結果をWorker内にキャッシュする
+const lintText = createIncrementalLinter();
+
+// 実行中のチェック。cancel を受け取ったら対応するチェックを中止する
+const running = new Map<number, AbortController>();
+
+ready.then(
+  () => post({ type: "ready" }),
+  error => post({ type: "init-error", message: toErrorMessage(error) })
+);
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<TextlintWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === "cancel") {
+      running.get(request.id)?.abort();
+      return;
+    }
+
+    const { id, text, config, options } = request;
+    const controller = new AbortController();
+    running.set(id, controller);
+    try {
+      await ready;
+      const result = await lintText(text, config, {
+        ...options,
+        configBaseDir: "/",
+        signal: controller.signal,
+      });
+      post({ type: "result", id, result });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        post({ type: "error", id, message: toErrorMessage(error) });
+      }
+    } finally {
+      running.delete(id);
+    }
+  }
+);
@@ -0,0 +1,42 @@
+/**
+ * kuromojiの辞書を client/public/dict にコピーする。
+ * Workerは辞書をCDNではなくアプリと同じ場所から読み込むため、`pnpm dev`・`pnpm build` の前に実行する
+ *
+ * 辞書は合わせて約18MBあり、インストール済みのパッケージから毎回コピーできるため、リポジトリには含めない
+ */
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+const OUTPUT = path.resolve(import.meta.dirname, "../client/public/dict");
+
+// kuromoji はkuromojinの依存パッケージのため、kuromojinから解決する
+const require = createRequire(import.meta.url);
+const kuromojinRequire = createRequire(require.resolve("kuromojin"));
+const source = path.join(
+  path.dirname(kuromojinRequire.resolve("kuromoji/package.json")),
+  "dict"
+);
+
+fs.mkdirSync(OUTPUT, { recursive: true });
+let copied = 0;
+for (const file of fs.readdirSync(source)) {
+  const from = path.join(source, file);
+  const to = path.join(OUTPUT, file);
+  // 同じ内容のファイルはコピーし直さない（サイズが違えば中身は比べない）
+  if (
+    fs.existsSync(to) &&
+    fs.statSync(to).size === fs.statSync(from).size &&
+    fs.readFileSync(to).equals(fs.readFileSync(from))
+  ) {
+    continue;
+  }
+  fs.copyFileSync(from, to);
+  copied++;
+}
+
+console.log(
+  copied > 0
+    ? `${copied}個の辞書ファイルを ${path.relative(process.cwd(), OUTPUT)} にコピーしました`
+    : "辞書ファイルは最新です"
+);
@@ -0,0 +1,149 @@
+/**
+ * インストール済みのプリセットからルールカタログ（shared/textlint/rule-catalog.generated.ts）を生成する。
+ * プリセットを更新したら `pnpm catalog` で再生成する
+ *
+ * - ルールIDと既定の重要度: プリセットの rules / rulesConfig
+ * - 表示名・説明・ドキュメントURL: プリセットのREADMEにあるルールごとの節
+ */
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import prettier from "prettier";
+import aiWritingPreset from "@textlint-ja/textlint-rule-preset-ai-writing";
+import jaTechnicalWritingPreset from "textlint-rule-preset-ja-technical-writing";
+import type { RuleCatalogEntry } from "../shared/textlint/catalog";
+import { interop } from "../shared/textlint/interop";
+import type { TextlintRulePreset } from "../shared/textlint/presets";
+import { configuredSeverity } from "../shared/textlint/severity";
+
+const require = createRequire(import.meta.url);
+const OUTPUT = path.resolve(
+  import.meta.dirname,
+  "../shared/textlint/rule-catalog.generated.ts"
+);
+
+interface PresetSource {
+  /** `.textlintrc.json` で使うプリセット名 */
+  key: string;
+  packageName: string;
+  /** プリセットのパッケージを import したもの（CommonJSの形式のまま） */
+  module: unknown;
+  /** READMEの見出しがルールIDになっているプリセットで使う表示名 */
+  names?: Record<string, string>;
+  /** ドキュメントURLとルールIDが対応しない節の見出し */
+  headings?: Record<string, string>;
+}
+
+const PRESET_SOURCES: PresetSource[] = [
+  {
+    key: "preset-ja-technical-writing",
+    packageName: "textlint-rule-preset-ja-technical-writing",
+    module: jaTechnicalWritingPreset,
+    headings: {
+      "arabic-kanji-numbers": "漢数字と算用数字を使い分けます",
+    },
+  },
+  {
+    key: "@textlint-ja/preset-ai-writing",
+    packageName: "@textlint-ja/textlint-rule-preset-ai-writing",
+    module: aiWritingPreset,
+    names: {
+      "no-ai-list-formatting": "AI的なリスト書式",
+      "no-ai-hype-expressions": "AI的な誇張表現",
+      "no-ai-emphasis-patterns": "AI的な強調パターン",
+      "ai-tech-writing-guideline": "技術文書のガイドライン",
+      "no-ai-colon-continuation": "コロンの使用",
+    },
+  },
+];
+
+interface ReadmeSection {
+  heading: string;
+  url?: string;
+  description: string;
+}
+
+// `### 見出し` ごとに、直後の `> URL` と最初の段落を取り出す
+function parseReadmeSections(readme: string): ReadmeSection[] {
+  return readme
+    .split(/^### /m)
+    .slice(1)
+    .map(section => {
+      const [heading, ...lines] = section.split("\n");
+      const url = lines
+        .find(line => line.startsWith("> http"))
+        ?.slice(2)
+        .trim();
+      const paragraph: string[] = [];
+      for (const line of lines) {
+        if (line.startsWith(">") || line.startsWith("#")) continue;
+        if (line.trim() === "") {
+          if (paragraph.length > 0) break;
+          continue;
+        }
+        paragraph.push(line.trim());
+      }
+      return { heading: heading.trim(), url, description: paragraph.join("") };
+    });
+}
+
+function buildEntries(source: PresetSource): RuleCatalogEntry[] {
+  const preset = interop<TextlintRulePreset>(source.module);
+  const packageDir = path.dirname(
+    require.resolve(`${source.packageName}/package.json`)
+  );
+  const { homepage } = JSON.parse(
+    fs.readFileSync(path.join(packageDir, "package.json"), "utf-8")
+  );
+  const sections = parseReadmeSections(
+    fs.readFileSync(path.join(packageDir, "README.md"), "utf-8")
+  );
+
+  return Object.keys(preset.rules).map(id => {
+    const section = sections.find(
+      s =>
+        s.heading === id ||
+        s.heading === source.headings?.[id] ||
+        s.url?.endsWith(`textlint-rule-${id}`)
+    );
+    if (!section) {
+      throw new Error(
+        `${source.packageName} のREADMEに ${id} の説明がありません`
+      );
+    }
+
+    return {
+      id,
+      preset: source.key,
+      name: source.names?.[id] ?? section.heading,
+      description: section.description,
+      severity: configuredSeverity(preset.rulesConfig[id]) ?? "error",
+      docsUrl: section.url ?? `${homepage}#${id}`,
+    };
+  });
+}
+
+async function main() {
+  const entries = PRESET_SOURCES.flatMap(buildEntries);
+  const source = `// このファイルは scripts/generate-rule-catalog.ts で生成しています。直接編集しないでください
+import type { RuleCatalogEntry } from "./catalog";
+
+export const RULE_CATALOG: RuleCatalogEntry[] = ${JSON.stringify(entries)};
+`;
+
+  fs.writeFileSync(
+    OUTPUT,
+    await prettier.format(source, {
+      ...(await prettier.resolveConfig(OUTPUT)),
+      filepath: OUTPUT,
+    })
+  );
+  console.log(
+    `${entries.length}件のルールを ${path.relative(process.cwd(), OUTPUT)} に書き出しました`
+  );
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
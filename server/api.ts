@@ -0,0 +1,185 @@
+import express, { type ErrorRequestHandler } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { lintText } from "@shared/textlint/engine";
+import { importTextlintrc } from "@shared/textlint/textlintrc";
+import { DOCUMENT_EXTENSIONS } from "@shared/textlint/types";
+import { collectBatchFiles, streamBatchResults } from "./batch";
+import { loadBundledConfig } from "./config";
+
+// リクエスト本文の上限。CMSのプレビューなど、1つの文書をチェックする用途を想定する
+const BODY_LIMIT = "1mb";
+// 長い文書はチェックに時間がかかり、その間ほかのリクエストを待たせるため、文字数でも制限する
+const MAX_TEXT_LENGTH = 100_000;
+// バッチでアップロードできるファイル（ZIPを含む）の数と、1ファイルあたりのサイズの上限
+const MAX_UPLOAD_FILES = 100;
+const MAX_UPLOAD_SIZE = 20 * 1024 * 1024;
+// アップロードはメモリに置くため、ファイル数とサイズの上限とは別に、リクエスト全体のサイズも制限する
+const MAX_BATCH_REQUEST_SIZE = 100 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { files: MAX_UPLOAD_FILES, fileSize: MAX_UPLOAD_SIZE },
+  // 日本語のファイル名とフォルダー選択で送られる相対パスをそのまま受け取る
+  defParamCharset: "utf8",
+  preservePath: true,
+});
+
+/**
+ * バッチのファイルを受け取る。multipart の本文を読み込む前に Content-Length でリクエスト全体の
+ * サイズを確かめる（Node.js は Content-Length を超えて本文を読まないため、これが受け取るサイズの上限になる）
+ */
+const uploadBatchFiles: express.RequestHandler = (req, res, next) => {
+  const length = req.headers["content-length"];
+  if (length === undefined) {
+    next(new ApiError(411, "Content-Length を指定してください"));
+  } else if (Number(length) > MAX_BATCH_REQUEST_SIZE) {
+    next(
+      new ApiError(
+        413,
+        `リクエストが大きすぎます（上限: ${MAX_BATCH_REQUEST_SIZE / 1024 / 1024}MB）`
+      )
+    );
+  } else {
+    upload.array("files")(req, res, next);
+  }
+};
+
+const batchRequestSchema = z.object({
+  /** `.textlintrc.json` の内容（JSON文字列）。省略すると組み込みの設定を使う */
+  config: z.string().optional(),
+});
+
+const lintRequestSchema = z.object({
+  text: z.string().max(MAX_TEXT_LENGTH),
+  format: z.enum(["text", "markdown"]).default("text"),
+  /** `.textlintrc.json` の内容。省略すると組み込みの設定を使う */
+  config: z.unknown().optional(),
+});
+
+/** リクエストの誤り。status のステータスコードで `{ error }` を返す */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function parseBody<T extends z.ZodType>(schema: T, body: unknown): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ApiError(
+      400,
+      `リクエストの形式が正しくありません（${issue.path.join(".") || "ルート"}: ${issue.message}）`
+    );
+  }
+  return parsed.data;
+}
+
+/** リクエストで指定された設定を読み込む。未対応のプリセットやプラグインは読み飛ばす */
+async function resolveConfig(config: unknown) {
+  if (config === undefined) return (await loadBundledConfig()).config;
+  try {
+    return importTextlintrc(config).config;
+  } catch (error) {
+    throw new ApiError(400, (error as Error).message);
+  }
+}
+
+// 本文の解析（express.json）とハンドラーの例外をJSONのエラーにする
+const handleError: ErrorRequestHandler = (error, _req, res, _next) => {
+  if (error instanceof ApiError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  // body-parser の例外は type でわかる
+  if (error?.type === "entity.too.large") {
+    res
+      .status(413)
+      .json({ error: `リクエストが大きすぎます（上限: ${BODY_LIMIT}）` });
+    return;
+  }
+  if (error instanceof multer.MulterError) {
+    const tooLarge =
+      error.code === "LIMIT_FILE_SIZE" || error.code === "LIMIT_FILE_COUNT";
+    res.status(tooLarge ? 413 : 400).json({
+      error: tooLarge
+        ? `ファイルが大きすぎるか多すぎます（1ファイル${MAX_UPLOAD_SIZE / 1024 / 1024}MB・${MAX_UPLOAD_FILES}ファイルまで）`
+        : `アップロードを読み込めません（${error.message}）`,
+    });
+    return;
+  }
+  if (error?.type === "entity.parse.failed") {
+    res.status(400).json({ error: "JSON形式のリクエストではありません" });
+    return;
+  }
+  console.error("API request failed:", error);
+  res.status(500).json({ error: "チェックに失敗しました" });
+};
+
+/**
+ * `/api` 以下のルート。ブラウザと同じルールエンジン（shared/textlint）でチェックする。
+ *
+ * - `POST /api/lint` … `{ text, format, config }` をチェックし、ブラウザと同じ LintResult を返す
+ * - `POST /api/lint/batch` … multipart の `files`（ZIPも可）をチェックし、結果をNDJSONで順に返す
+ */
+export function createApiRouter() {
+  const router = express.Router();
+  router.use(express.json({ limit: BODY_LIMIT }));
+
+  router.post("/lint", async (req, res, next) => {
+    try {
+      const { text, format, config } = parseBody(lintRequestSchema, req.body);
+      const result = await lintText(text, await resolveConfig(config), {
+        ext: DOCUMENT_EXTENSIONS[format],
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/lint/batch", uploadBatchFiles, async (req, res, next) => {
+    try {
+      const { config } = parseBody(batchRequestSchema, req.body);
+      let json: unknown;
+      if (config !== undefined) {
+        try {
+          json = JSON.parse(config);
+        } catch {
+          throw new ApiError(400, "JSON形式の .textlintrc ではありません");
+        }
+      }
+      const lintConfig = await resolveConfig(json);
+
+      let collected;
+      try {
+        collected = collectBatchFiles(
+          (req.files as Express.Multer.File[] | undefined) ?? []
+        );
+      } catch (error) {
+        throw new ApiError(400, (error as Error).message);
+      }
+      if (collected.files.length === 0) {
+        throw new ApiError(
+          400,
+          "チェックできるファイル（.md・.markdown・.txt、またはそれらを含むZIP）がありません"
+        );
+      }
+
+      await streamBatchResults(res, collected, lintConfig, MAX_TEXT_LENGTH);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 存在しないAPIは index.html ではなくJSONで404を返す
+  router.use((_req, _res, next) => {
+    next(new ApiError(404, "存在しないAPIです"));
+  });
+  router.use(handleError);
+  return router;
+}
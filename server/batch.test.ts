@@ -0,0 +1,54 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { collectBatchFiles, type UploadedFile } from "./batch";
+
+function zip(originalname: string, files: Record<string, string>) {
+  const entries = Object.fromEntries(
+    Object.entries(files).map(([name, text]) => [name, strToU8(text)])
+  );
+  return { originalname, buffer: Buffer.from(zipSync(entries)) };
+}
+
+function file(originalname: string, text: string): UploadedFile {
+  return { originalname, buffer: Buffer.from(text) };
+}
+
+describe("collectBatchFiles", () => {
+  it("expands ZIPs and prefixes their entries with the ZIP name", () => {
+    const { files, skipped } = collectBatchFiles([
+      zip("docs.zip", {
+        "guide/intro.md": "# はじめに",
+        "guide/image.png": "",
+        "__MACOSX/guide/._intro.md": "",
+        ".hidden.md": "",
+      }),
+      file("README.md", "# README"),
+      file("notes.pdf", ""),
+    ]);
+    expect(files.map(f => [f.filePath, f.format])).toEqual([
+      ["docs.zip/guide/intro.md", "markdown"],
+      ["README.md", "markdown"],
+    ]);
+    expect(skipped).toEqual(["docs.zip/guide/image.png", "notes.pdf"]);
+  });
+
+  it("limits the unzipped size across all ZIPs in the request", () => {
+    const text = "あ".repeat(10 * 1024 * 1024);
+    const upload = zip("a.zip", { "a.txt": text });
+    // 1つのZIPは上限（50MB）に収まる
+    expect(collectBatchFiles([upload]).files).toHaveLength(1);
+    expect(() =>
+      collectBatchFiles([
+        upload,
+        { ...upload, originalname: "b.zip" },
+        { ...upload, originalname: "c.zip" },
+      ])
+    ).toThrow("ZIPの展開後の合計サイズが上限（50MB）を超えています（b.zip）");
+  });
+
+  it("rejects files that are not ZIPs", () => {
+    expect(() => collectBatchFiles([file("broken.zip", "not a zip")])).toThrow(
+      "broken.zip はZIPファイルとして読み込めません"
+    );
+  });
+});
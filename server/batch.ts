@@ -0,0 +1,202 @@
+import type { Response } from "express";
+import { unzipSync } from "fflate";
+import { lintText } from "@shared/textlint/engine";
+import { formatFromFileName } from "@shared/textlint/file-formats";
+import { summarizeByRule, type RuleSummary } from "@shared/textlint/summary";
+import {
+  DOCUMENT_EXTENSIONS,
+  type DocumentFormat,
+  type LintResult,
+  type TextlintConfig,
+  type TextlintMessage,
+} from "@shared/textlint/types";
+
+/** 1回のバッチでチェックするファイル数の上限（ZIPを展開した後の数） */
+export const MAX_BATCH_FILES = 1000;
+// ZIPを展開した後の合計サイズの上限（リクエスト内のすべてのZIPの合計）。圧縮率の高いZIPでメモリを使い切らないようにする
+const MAX_UNZIPPED_SIZE = 50 * 1024 * 1024;
+
+/** アップロードされたファイル（multer の Express.Multer.File のうち使う部分） */
+export interface UploadedFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+/** チェックするファイル */
+export interface BatchFile {
+  filePath: string;
+  format: DocumentFormat;
+  data: Uint8Array;
+}
+
+export interface CollectedFiles {
+  files: BatchFile[];
+  /** チェックできない拡張子のため読み飛ばしたファイル */
+  skipped: string[];
+}
+
+// macOS の Finder で作ったZIPに含まれるメタデータなど、チェックしないファイル
+function isHiddenPath(filePath: string): boolean {
+  return filePath
+    .split("/")
+    .some(part => part.startsWith(".") || part === "__MACOSX");
+}
+
+/** ZIPを展開した後の合計サイズが上限を超えた */
+class UnzippedSizeError extends Error {}
+
+/**
+ * ZIPを展開して中のファイルを collected に加える。展開後のサイズは unzipped に足していき、
+ * リクエスト全体で上限を超えたら例外を投げる
+ */
+function expandZip(
+  upload: UploadedFile,
+  collected: CollectedFiles,
+  unzipped: { size: number }
+) {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(upload.buffer, {
+      filter: entry => {
+        if (entry.name.endsWith("/") || isHiddenPath(entry.name)) return false;
+        if (!formatFromFileName(entry.name)) {
+          collected.skipped.push(`${upload.originalname}/${entry.name}`);
+          return false;
+        }
+        unzipped.size += entry.originalSize;
+        if (unzipped.size > MAX_UNZIPPED_SIZE) {
+          throw new UnzippedSizeError(
+            `ZIPの展開後の合計サイズが上限（${MAX_UNZIPPED_SIZE / 1024 / 1024}MB）を超えています（${upload.originalname}）`
+          );
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnzippedSizeError) throw error;
+    throw new Error(`${upload.originalname} はZIPファイルとして読み込めません`);
+  }
+
+  for (const [name, data] of Object.entries(entries)) {
+    collected.files.push({
+      filePath: `${upload.originalname}/${name}`,
+      format: formatFromFileName(name)!,
+      data,
+    });
+  }
+}
+
+/**
+ * アップロードされたファイルを、チェックするファイルの一覧にする。ZIPは展開して中のファイルをチェックする。
+ * ZIPを読み込めない場合やファイルが多すぎる場合は例外を投げる
+ */
+export function collectBatchFiles(uploads: UploadedFile[]): CollectedFiles {
+  const collected: CollectedFiles = { files: [], skipped: [] };
+  const unzipped = { size: 0 };
+
+  for (const upload of uploads) {
+    if (upload.originalname.toLowerCase().endsWith(".zip")) {
+      expandZip(upload, collected, unzipped);
+      continue;
+    }
+    const format = formatFromFileName(upload.originalname);
+    if (format) {
+      collected.files.push({
+        filePath: upload.originalname,
+        format,
+        data: upload.buffer,
+      });
+    } else {
+      collected.skipped.push(upload.originalname);
+    }
+  }
+
+  if (collected.files.length > MAX_BATCH_FILES) {
+    throw new Error(
+      `ファイルが多すぎます（${collected.files.length}件、上限: ${MAX_BATCH_FILES}件）`
+    );
+  }
+  collected.files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  return collected;
+}
+
+/** NDJSON の1行。start、ファイルごとの file、最後に summary の順に送る */
+export type BatchEvent =
+  | { type: "start"; files: number; skipped: string[] }
+  | { type: "file"; index: number; filePath: string; result: LintResult }
+  | { type: "file"; index: number; filePath: string; error: string }
+  | {
+      type: "summary";
+      files: number;
+      /** チェックに失敗したファイルの数 */
+      failed: number;
+      errorCount: number;
+      warningCount: number;
+      infoCount: number;
+      rules: RuleSummary[];
+    };
+
+/**
+ * ファイルを1つずつチェックし、結果をNDJSONで順に送る。
+ * 途中で接続が切れたら残りのファイルはチェックしない
+ */
+export async function streamBatchResults(
+  res: Response,
+  { files, skipped }: CollectedFiles,
+  config: TextlintConfig,
+  maxTextLength: number
+) {
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+  const send = (event: BatchEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  res.status(200);
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  // プロキシにまとめて送られると進み具合がわからなくなるため、バッファリングを止める
+  res.setHeader("X-Accel-Buffering", "no");
+  send({ type: "start", files: files.length, skipped });
+
+  const decoder = new TextDecoder();
+  const messages: Pick<TextlintMessage, "ruleId" | "severity">[] = [];
+  const totals = { failed: 0, errorCount: 0, warningCount: 0, infoCount: 0 };
+
+  for (let index = 0; index < files.length; index++) {
+    if (closed) return;
+    const file = files[index];
+    try {
+      const text = decoder.decode(file.data);
+      if (text.length > maxTextLength) {
+        throw new Error(`文書が長すぎます（上限: ${maxTextLength}文字）`);
+      }
+      const result = await lintText(text, config, {
+        ext: DOCUMENT_EXTENSIONS[file.format],
+      });
+      messages.push(
+        ...result.messages.map(({ ruleId, severity }) => ({ ruleId, severity }))
+      );
+      totals.errorCount += result.errorCount;
+      totals.warningCount += result.warningCount;
+      totals.infoCount += result.infoCount;
+      send({ type: "file", index, filePath: file.filePath, result });
+    } catch (error) {
+      totals.failed++;
+      send({
+        type: "file",
+        index,
+        filePath: file.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  send({
+    type: "summary",
+    files: files.length,
+    ...totals,
+    rules: summarizeByRule(messages),
+  });
+  res.end();
+}
@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+/**
+ * ブラウザと同じルールエンジン（shared/textlint）でファイルをチェックするCLI。
+ *
+ *   textlint-web-checker check [options] <files...>
+ *
+ * 設定は画面から書き出したプロファイル（--profile）、`.textlintrc.json`（--config）、
+ * カレントディレクトリの `.textlintrc.json`、組み込みの設定の順に探す
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { lintText } from "@shared/textlint/engine";
+import {
+  FILE_FORMATS,
+  formatFromFileName,
+} from "@shared/textlint/file-formats";
+import {
+  FORMATTERS,
+  FORMATTER_NAMES,
+  isFormatterName,
+  type FileLintResult,
+} from "@shared/textlint/formatters";
+import {
+  parseProfile,
+  resolveRuleSettings,
+  type ResolvedRuleSettings,
+} from "@shared/textlint/profile";
+import { DOCUMENT_EXTENSIONS } from "@shared/textlint/types";
+import { BUNDLED_CONFIG_PATH, loadTextlintrc } from "./config";
+
+const USAGE = `使い方: textlint-web-checker check [options] <files...>
+
+ファイルやディレクトリ（${Object.keys(FILE_FORMATS).join("・")} を再帰的に探す）をチェックする
+
+options:
+  -f, --format <name>      出力形式（${FORMATTER_NAMES.join("|")}、既定: stylish）
+  -c, --config <path>      .textlintrc.json のパス
+  -p, --profile <path>     画面から書き出したプロファイル（*.profile.json）
+      --max-warnings <n>   警告がこの数を超えたら失敗にする
+  -h, --help               この説明を表示する
+
+終了コード: 0 問題なし、1 エラーがあるか警告が多すぎる、2 実行できなかった`;
+
+/** 使い方の誤り。説明を添えて終了コード2で終える */
+class UsageError extends Error {}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function loadConfigFile(filePath: string): Promise<ResolvedRuleSettings> {
+  const { config, unsupported } = await loadTextlintrc(filePath);
+  if (unsupported.length > 0) {
+    console.error(
+      `${filePath}: 未対応の設定を読み飛ばしました（${unsupported.join(", ")}）`
+    );
+  }
+  return resolveRuleSettings({
+    config,
+    enabled: {},
+    options: {},
+    severity: {},
+    allowlist: [],
+    dictionary: [],
+    customRules: [],
+  });
+}
+
+async function loadSettings(options: {
+  config?: string;
+  profile?: string;
+}): Promise<ResolvedRuleSettings> {
+  if (options.profile) {
+    if (options.config) {
+      throw new UsageError("--profile と --config は同時に指定できません");
+    }
+    const { settings } = parseProfile(
+      await fs.readFile(options.profile, "utf8")
+    );
+    return resolveRuleSettings(settings);
+  }
+  if (options.config) return loadConfigFile(options.config);
+
+  const local = path.resolve(".textlintrc.json");
+  return loadConfigFile((await exists(local)) ? local : BUNDLED_CONFIG_PATH);
+}
+
+/** 指定されたパスをファイルの一覧にする。ディレクトリは対応する拡張子のファイルを再帰的に探す */
+async function collectFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(directory: string) {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else if (formatFromFileName(entryPath)) {
+        files.push(entryPath);
+      }
+    }
+  }
+
+  for (const target of paths) {
+    const stat = await fs.stat(target).catch(() => null);
+    if (!stat) throw new UsageError(`${target} が見つかりません`);
+    if (stat.isDirectory()) {
+      await walk(target);
+    } else {
+      files.push(target);
+    }
+  }
+  return Array.from(new Set(files));
+}
+
+async function check(
+  args: string[],
+  options: {
+    format: string;
+    config?: string;
+    profile?: string;
+    maxWarnings?: string;
+  }
+): Promise<number> {
+  if (args.length === 0) {
+    throw new UsageError("チェックするファイルを指定してください");
+  }
+  if (!isFormatterName(options.format)) {
+    throw new UsageError(
+      `--format には ${FORMATTER_NAMES.join("・")} のいずれかを指定してください`
+    );
+  }
+  const maxWarnings =
+    options.maxWarnings === undefined ? undefined : Number(options.maxWarnings);
+  if (
+    maxWarnings !== undefined &&
+    (!Number.isInteger(maxWarnings) || maxWarnings < 0)
+  ) {
+    throw new UsageError("--max-warnings には0以上の整数を指定してください");
+  }
+
+  const settings = await loadSettings(options);
+  const files = await collectFiles(args);
+  if (files.length === 0) {
+    throw new UsageError("チェックできるファイルが見つかりません");
+  }
+
+  const results: FileLintResult[] = [];
+  for (const file of files) {
+    const text = await fs.readFile(file, "utf8");
+    // 拡張子がわからないファイルもプレーンテキストとしてチェックする
+    const format = formatFromFileName(file) ?? "text";
+    const result = await lintText(text, settings.config, {
+      ext: DOCUMENT_EXTENSIONS[format],
+      allowlist: settings.allowlist,
+      dictionary: settings.dictionary,
+      customRules: settings.customRules,
+    });
+    results.push({ filePath: path.relative(process.cwd(), file), result });
+  }
+
+  process.stdout.write(FORMATTERS[options.format].format(results));
+
+  const errorCount = results.reduce(
+    (sum, { result }) => sum + result.errorCount,
+    0
+  );
+  const warningCount = results.reduce(
+    (sum, { result }) => sum + result.warningCount,
+    0
+  );
+  if (maxWarnings !== undefined && warningCount > maxWarnings) {
+    console.error(
+      `警告が多すぎます（${warningCount}件、上限: ${maxWarnings}件）`
+    );
+    return 1;
+  }
+  return errorCount > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "stylish" },
+      config: { type: "string", short: "c" },
+      profile: { type: "string", short: "p" },
+      "max-warnings": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== "check") {
+    throw new UsageError(
+      command ? `不明なコマンドです: ${command}` : "コマンドを指定してください"
+    );
+  }
+  return check(args, {
+    format: values.format,
+    config: values.config,
+    profile: values.profile,
+    maxWarnings: values["max-warnings"],
+  });
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (
+      error instanceof UsageError ||
+      (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,38 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  parseTextlintrc,
+  type ImportedTextlintrc,
+} from "@shared/textlint/textlintrc";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * 組み込みの設定（ブラウザの既定のプロファイルと同じ `.textlintrc.json`）。
+ * dist/*.js・server/*.ts のどちらから実行してもリポジトリ直下のファイルを指す
+ */
+export const BUNDLED_CONFIG_PATH = path.resolve(
+  __dirname,
+  "..",
+  ".textlintrc.json"
+);
+
+/** `.textlintrc.json` を読み込み、組み込みのプリセットとプラグインだけを残した設定にする */
+export async function loadTextlintrc(
+  filePath: string
+): Promise<ImportedTextlintrc> {
+  return parseTextlintrc(await fs.readFile(filePath, "utf8"));
+}
+
+let bundledConfig: Promise<ImportedTextlintrc> | null = null;
+
+/** 組み込みの設定を読み込む。一度読み込んだ設定を使い回す */
+export function loadBundledConfig(): Promise<ImportedTextlintrc> {
+  bundledConfig ??= loadTextlintrc(BUNDLED_CONFIG_PATH);
+  // 読み込めなかった場合は次の呼び出しでやり直す
+  bundledConfig.catch(() => {
+    bundledConfig = null;
+  });
+  return bundledConfig;
+}
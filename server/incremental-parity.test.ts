@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { lintText } from "@shared/textlint/engine";
+import { createIncrementalLinter } from "@shared/textlint/incremental";
+import { resolveRuleSettings } from "@shared/textlint/profile";
+import type { LintResult } from "@shared/textlint/types";
+import { BUNDLED_CONFIG_PATH, loadTextlintrc } from "./config";
+
+// ゆるいリスト・入れ子のリスト・引用の中のリストを含む文書。
+// リストの続きの段落は4文字下げてあり、空行で分けて単独で読むとコードブロックになる
+const FIXTURE = `# 手順
+
+- サーバを停止します。
+
+    停止には数分かかります。
+
+- 設定を変更します。
+
+    - 接続先を変更します。
+
+        本番環境の場合は、必ず確認します。
+
+    - ポートを変更します。
+
+- サーバを起動します。
+
+> 注意
+>
+> - 起動できない場合は、ログを確認します。
+>
+> - ログはlogsディレクトリにあります。
+
+最後に、動作を確認します。
+`;
+
+const EDITS: [string, (text: string) => string][] = [
+  [
+    "a loose list item's paragraph",
+    text => text.replace("停止には数分かかります。", "停止することができる。"),
+  ],
+  [
+    "a nested list item's paragraph",
+    text =>
+      text.replace(
+        "本番環境の場合は、必ず確認します。",
+        "本番環境の場合は、確認することができる。"
+      ),
+  ],
+  [
+    "a nested list item",
+    text => text.replace("接続先を変更します。", "接続先をを変更します。"),
+  ],
+  [
+    "a list inside a blockquote",
+    text =>
+      text.replace(
+        "> - ログはlogsディレクトリにあります。",
+        "> - ログを確認することができる。"
+      ),
+  ],
+  [
+    "the separation between list items",
+    text =>
+      text.replace("\n\n- サーバを起動します。", "\n- サーバを起動します。"),
+  ],
+];
+
+// CLIの check と同じく、.textlintrc.json を読み込んで設定にする
+async function loadSettings() {
+  const { config } = await loadTextlintrc(BUNDLED_CONFIG_PATH);
+  return resolveRuleSettings({
+    config,
+    enabled: {},
+    options: {},
+    severity: {},
+    allowlist: [],
+    dictionary: [],
+    customRules: [],
+  });
+}
+
+function sortMessages(result: LintResult) {
+  return {
+    ...result,
+    messages: [...result.messages].sort(
+      (a, b) =>
+        a.range[0] - b.range[0] ||
+        a.range[1] - b.range[1] ||
+        a.ruleId.localeCompare(b.ruleId) ||
+        a.message.localeCompare(b.message)
+    ),
+  };
+}
+
+describe("incremental lint parity with the CLI", () => {
+  for (const [name, edit] of EDITS) {
+    it(`matches after editing ${name}`, async () => {
+      const settings = await loadSettings();
+      const options = {
+        ext: ".md",
+        allowlist: settings.allowlist,
+        dictionary: settings.dictionary,
+        customRules: settings.customRules,
+      };
+      const lint = createIncrementalLinter();
+      const before = await lint(FIXTURE, settings.config, options);
+      expect(sortMessages(before)).toEqual(
+        sortMessages(await lintText(FIXTURE, settings.config, options))
+      );
+
+      const edited = edit(FIXTURE);
+      expect(edited).not.toBe(FIXTURE);
+      const incremental = await lint(edited, settings.config, options);
+      const full = await lintText(edited, settings.config, options);
+      expect(sortMessages(incremental)).toEqual(sortMessages(full));
+    });
+  }
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { applyAllowlist, validateAllowPattern } from "./allowlist";
+import { literalPattern } from "./pattern";
+import type { TextlintMessage } from "./types";
+
+function message(
+  ruleId: string,
+  range: [number, number],
+  text: string
+): TextlintMessage {
+  return {
+    type: "lint",
+    ruleId,
+    message: `${ruleId} の指摘`,
+    line: 1,
+    column: range[0] + 1,
+    severity: 2,
+    range,
+    loc: {
+      start: { line: 1, column: range[0] + 1 },
+      end: { line: 1, column: range[1] + 1 },
+    },
+    matchedText: text.slice(...range),
+  };
+}
+
+describe("applyAllowlist", () => {
+  it("treats plain patterns as literal text", () => {
+    const text = "a.b と axb";
+    const messages = [
+      message("spellcheck", [0, 3], text),
+      message("spellcheck", [6, 9], text),
+    ];
+    const result = applyAllowlist(text, messages, [
+      { pattern: "a.b", ruleIds: [] },
+    ]);
+    expect(result.messages).toEqual([messages[1]]);
+    expect(result.allowedCount).toBe(1);
+  });
+
+  it("treats /pattern/flags as a regular expression", () => {
+    const text = "GitHub と github";
+    const messages = [
+      message("spellcheck", [0, 6], text),
+      message("spellcheck", [9, 15], text),
+    ];
+    const result = applyAllowlist(text, messages, [
+      { pattern: "/github/i", ruleIds: [] },
+    ]);
+    expect(result.messages).toEqual([]);
+    expect(result.allowedCount).toBe(2);
+  });
+
+  it("only removes messages of the listed rules", () => {
+    const text = "サーバを起動";
+    const messages = [
+      message("spellcheck", [0, 3], text),
+      message("ja-technical-writing/ja-no-mixed-period", [0, 3], text),
+    ];
+    const result = applyAllowlist(text, messages, [
+      { pattern: "サーバ", ruleIds: ["spellcheck"] },
+    ]);
+    expect(result.messages).toEqual([messages[1]]);
+  });
+
+  it("keeps messages that extend beyond the allowed term", () => {
+    const text = "サーバを起動";
+    const messages = [message("sentence-length", [0, 6], text)];
+    expect(
+      applyAllowlist(text, messages, [{ pattern: "サーバ", ruleIds: [] }])
+        .messages
+    ).toEqual(messages);
+  });
+
+  it("ignores patterns that are not valid regular expressions", () => {
+    const text = "(abc";
+    const messages = [message("spellcheck", [0, 4], text)];
+    expect(validateAllowPattern("/(abc/")).toMatch(
+      /^正規表現が正しくありません/
+    );
+    expect(
+      applyAllowlist(text, messages, [{ pattern: "/(abc/", ruleIds: [] }])
+        .messages
+    ).toEqual(messages);
+  });
+});
+
+describe("literalPattern", () => {
+  it("keeps text that is not read as a regular expression", () => {
+    expect(literalPattern("a.b")).toBe("a.b");
+    expect(literalPattern("/path")).toBe("/path");
+  });
+
+  it("escapes text that looks like /pattern/flags", () => {
+    const text = "/api/v1.0/users/g";
+    const messages = [message("spellcheck", [0, text.length], text)];
+    const pattern = literalPattern(text);
+    expect(pattern).not.toBe(text);
+    expect(validateAllowPattern(pattern)).toBeUndefined();
+    expect(
+      applyAllowlist(text, messages, [{ pattern, ruleIds: [] }]).messages
+    ).toEqual([]);
+    // エスケープしなければ正規表現として読まれ、同じ文字列に一致しない
+    expect(
+      applyAllowlist(text, messages, [{ pattern: text, ruleIds: [] }]).messages
+    ).toEqual(messages);
+  });
+});
@@ -0,0 +1,64 @@
+import { compilePattern } from "./pattern";
+import type { AllowlistEntry, TextlintMessage } from "./types";
+
+/** 正規表現として正しくないパターンならエラーメッセージを返す */
+export function validateAllowPattern(pattern: string): string | undefined {
+  if (pattern === "") return "語を入力してください";
+  try {
+    compilePattern(pattern);
+    return undefined;
+  } catch (error) {
+    return `正規表現が正しくありません（${error instanceof Error ? error.message : String(error)}）`;
+  }
+}
+
+// テキストの中で許可する語に一致する範囲
+function findAllowedRanges(text: string, pattern: string): [number, number][] {
+  let regexp: RegExp;
+  try {
+    regexp = compilePattern(pattern);
+  } catch {
+    return [];
+  }
+  return Array.from(text.matchAll(regexp))
+    .filter(match => match[0] !== "")
+    .map(match => [match.index!, match.index! + match[0].length]);
+}
+
+/**
+ * 許可リストの語に含まれる指摘を取り除く。
+ * 指摘箇所が許可する語の一致範囲に収まっている場合だけ取り除き、文全体への指摘などは残す
+ */
+export function applyAllowlist(
+  text: string,
+  messages: TextlintMessage[],
+  allowlist: AllowlistEntry[]
+): { messages: TextlintMessage[]; allowedCount: number } {
+  if (allowlist.length === 0) return { messages, allowedCount: 0 };
+
+  const entries = allowlist.map(entry => ({
+    ruleIds: entry.ruleIds,
+    ranges: findAllowedRanges(text, entry.pattern),
+  }));
+  const remaining = messages.filter(
+    ({ ruleId, range: [start, end] }) =>
+      !entries.some(
+        entry =>
+          (entry.ruleIds.length === 0 || entry.ruleIds.includes(ruleId)) &&
+          entry.ranges.some(
+            ([allowedStart, allowedEnd]) =>
+              allowedStart <= start && end <= allowedEnd
+          )
+      )
+  );
+
+  return {
+    messages: remaining,
+    allowedCount: messages.length - remaining.length,
+  };
+}
+
+/** 許可リストをファイルとして保存できる文字列にする */
+export function serializeAllowlist(allowlist: AllowlistEntry[]): string {
+  return `${JSON.stringify({ allowlist }, null, 2)}\n`;
+}
@@ -0,0 +1,46 @@
+import { RULE_CATALOG } from "./rule-catalog.generated";
+import type { SeverityName } from "./severity";
+
+export { RULE_CATALOG };
+
+/**
+ * Webチェッカーが組み込んでいるルールの情報。
+ * ルール本体を読み込まずに設定や画面を扱えるよう、プリセットから生成した静的なデータとして持つ
+ */
+export interface RuleCatalogEntry {
+  id: string;
+  /** ルールを含むプリセット（`.textlintrc.json` の rules のキー） */
+  preset: string;
+  /** 画面に表示する日本語名 */
+  name: string;
+  description: string;
+  /** プリセットの既定設定での重要度 */
+  severity: SeverityName;
+  docsUrl: string;
+}
+
+export const PRESET_NAMES: Record<string, string> = {
+  "preset-ja-technical-writing": "技術文書（preset-ja-technical-writing）",
+  "@textlint-ja/preset-ai-writing": "AI文書（preset-ai-writing）",
+};
+
+/** プリセットごとのルールID */
+export const PRESET_RULE_IDS: Record<string, readonly string[]> =
+  Object.fromEntries(
+    Object.keys(PRESET_NAMES).map(preset => [
+      preset,
+      RULE_CATALOG.filter(rule => rule.preset === preset).map(rule => rule.id),
+    ])
+  );
+
+export const PLUGIN_NAMES = ["@textlint/markdown", "@textlint/text"] as const;
+
+// `textlint-rule-preset-xxx` と `preset-xxx` のどちらの書き方でも同じプリセットを指す
+export function normalizeName(name: string, prefix: string): string {
+  return name.replace(`${prefix}-`, "");
+}
+
+/** ルールを含むプリセット名を返す。組み込みでないルールは undefined */
+export function findPreset(ruleId: string): string | undefined {
+  return RULE_CATALOG.find(rule => rule.id === ruleId)?.preset;
+}
@@ -0,0 +1,38 @@
+/** 指摘箇所とその前後の文字列 */
+export interface ErrorContext {
+  before: string;
+  error: string;
+  after: string;
+}
+
+/**
+ * 指摘箇所の前後 contextLength 文字を切り出す。前後は指摘箇所を含む行の中に限り、
+ * 行の途中で切ったところには `...` を付ける
+ */
+export function getErrorContext(
+  text: string,
+  range: [number, number],
+  contextLength: number = 20
+): ErrorContext {
+  const [errorStart, errorEnd] = range;
+  if (errorStart < 0 || errorStart > text.length) {
+    return { before: "", error: "", after: "" };
+  }
+
+  const lineStart = text.lastIndexOf("\n", errorStart - 1) + 1;
+  const newlineAfter = text.indexOf("\n", errorEnd);
+  const lineEnd = newlineAfter === -1 ? text.length : newlineAfter;
+
+  const beforeStart = Math.max(lineStart, errorStart - contextLength);
+  const before =
+    (beforeStart > lineStart ? "..." : "") +
+    text.substring(beforeStart, errorStart);
+
+  const error = text.substring(errorStart, errorEnd);
+
+  const afterEnd = Math.min(lineEnd, errorEnd + contextLength);
+  const after =
+    text.substring(errorEnd, afterEnd) + (afterEnd < lineEnd ? "..." : "");
+
+  return { before, error, after };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { validateCustomRule } from "./custom-rules";
+import { lintText } from "./engine";
+import { applyFixes } from "./fixer";
+import type { CustomRule } from "./types";
+
+function rule(overrides: Partial<CustomRule> = {}): CustomRule {
+  return {
+    id: "custom-no-todo",
+    pattern: "TODO",
+    message: "TODOが残っています",
+    severity: "warning",
+    ...overrides,
+  };
+}
+
+describe("validateCustomRule", () => {
+  it("accepts literal and regular expression patterns", () => {
+    expect(validateCustomRule(rule(), [])).toBeUndefined();
+    expect(
+      validateCustomRule(rule({ pattern: "/TODO|FIXME/i" }), [])
+    ).toBeUndefined();
+    // 正規表現の記号を含んでも、/…/ で囲まなければ文字列として扱う
+    expect(validateCustomRule(rule({ pattern: "(?" }), [])).toBeUndefined();
+  });
+
+  it("rejects rule ids that can't be written in directives", () => {
+    for (const id of ["", "Custom", "-custom", "custom rule", "custom/rule"]) {
+      expect(validateCustomRule(rule({ id }), [])).toBe(
+        "ルールIDは半角英小文字・数字・ハイフンで入力してください"
+      );
+    }
+  });
+
+  it("rejects rule ids that are already used", () => {
+    expect(validateCustomRule(rule(), ["max-ten", "custom-no-todo"])).toBe(
+      "ルールID custom-no-todo はすでに使われています"
+    );
+  });
+
+  it("rejects empty and invalid patterns", () => {
+    expect(validateCustomRule(rule({ pattern: "" }), [])).toBe(
+      "検出する表記を入力してください"
+    );
+    expect(validateCustomRule(rule({ pattern: "/(TODO/" }), [])).toMatch(
+      /^正規表現が正しくありません（/
+    );
+  });
+
+  it("rejects patterns that match an empty string", () => {
+    for (const pattern of ["/a*/", "/(?:)/", "/^/m"]) {
+      expect(validateCustomRule(rule({ pattern }), [])).toBe(
+        "空文字列に一致する正規表現は使えません"
+      );
+    }
+  });
+
+  it("rejects blank messages", () => {
+    expect(validateCustomRule(rule({ message: "  " }), [])).toBe(
+      "メッセージを入力してください"
+    );
+  });
+});
+
+describe("customRule", () => {
+  it("reports matches and fixes them with the replacement", async () => {
+    const text = "TODO: 後で書く。todoも。";
+    const { messages } = await lintText(
+      text,
+      {},
+      {
+        customRules: [
+          rule({
+            pattern: "/todo/gi",
+            message: "$& が残っています",
+            replacement: "（未定）",
+          }),
+        ],
+      }
+    );
+    expect(
+      messages.map(m => [m.ruleId, m.message, m.range, m.severity])
+    ).toEqual([
+      ["custom-no-todo", "TODO が残っています", [0, 4], 1],
+      ["custom-no-todo", "todo が残っています", [11, 15], 1],
+    ]);
+    expect(applyFixes(text, messages).output).toBe(
+      "（未定）: 後で書く。（未定）も。"
+    );
+  });
+
+  it("reports nothing for a broken saved rule", async () => {
+    const { messages } = await lintText(
+      "TODO",
+      {},
+      { customRules: [rule({ pattern: "/(TODO/" })] }
+    );
+    expect(messages).toEqual([]);
+  });
+});
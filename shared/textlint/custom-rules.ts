@@ -0,0 +1,90 @@
+import type { TextlintFixableRuleModule } from "@textlint/types";
+import { compilePattern, expandTemplate } from "./pattern";
+import type { CustomRule } from "./types";
+
+export type CustomRuleOptions = Partial<Omit<CustomRule, "id">>;
+
+// 無効化コメントや `.textlintrc.json` のルールIDと同じ書き方ができるIDだけを許す
+const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * 独自ルールの定義が正しくなければエラーメッセージを返す。
+ * `reservedIds` には組み込みのルールやほかの独自ルールのIDを渡す
+ */
+export function validateCustomRule(
+  rule: CustomRule,
+  reservedIds: string[]
+): string | undefined {
+  if (!RULE_ID_PATTERN.test(rule.id)) {
+    return "ルールIDは半角英小文字・数字・ハイフンで入力してください";
+  }
+  if (reservedIds.includes(rule.id)) {
+    return `ルールID ${rule.id} はすでに使われています`;
+  }
+  if (rule.pattern === "") return "検出する表記を入力してください";
+  let regexp: RegExp;
+  try {
+    regexp = compilePattern(rule.pattern);
+  } catch (error) {
+    return `正規表現が正しくありません（${error instanceof Error ? error.message : String(error)}）`;
+  }
+  if (regexp.test("")) return "空文字列に一致する正規表現は使えません";
+  if (rule.message.trim() === "") return "メッセージを入力してください";
+  return undefined;
+}
+
+const reporter: TextlintFixableRuleModule<CustomRuleOptions>["linter"] = (
+  context,
+  options
+) => {
+  const { Syntax, RuleError, report, getSource, locator, fixer } = context;
+  const { pattern = "", message = "", replacement } = options ?? {};
+  // 保存済みの設定が壊れていても、ほかのルールは実行できるように何も報告しない
+  const regexp = validateCustomRule(
+    { id: "custom", pattern, message, severity: "error" },
+    []
+  )
+    ? undefined
+    : compilePattern(pattern);
+
+  return {
+    [Syntax.Str](node) {
+      if (!regexp) return;
+      const text = getSource(node);
+      for (const match of Array.from(text.matchAll(regexp))) {
+        if (match[0] === "") continue;
+
+        const range = [match.index!, match.index! + match[0].length] as const;
+        const replaced =
+          replacement === undefined
+            ? undefined
+            : expandTemplate(replacement, match);
+        report(
+          node,
+          new RuleError(expandTemplate(message, match), {
+            padding: locator.range(range),
+            ...(replaced !== undefined &&
+              replaced !== match[0] && {
+                fix: fixer.replaceTextRange(range, replaced),
+              }),
+          })
+        );
+      }
+    },
+  };
+};
+
+/** 独自ルールの定義（オプション）に従って表記を検出するルール。置き換え後の表記があれば自動修正できる */
+export const customRule: TextlintFixableRuleModule<CustomRuleOptions> = {
+  linter: reporter,
+  fixer: reporter,
+};
+
+/** 独自ルールをカーネルに渡すルールの設定にする */
+export function resolveCustomRules(rules: CustomRule[]) {
+  return rules.map(({ id, ...options }) => ({
+    ruleId: id,
+    rule: customRule,
+    options,
+  }));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { lintText } from "./engine";
+import { applyFixes } from "./fixer";
+import type { DictionaryEntry } from "./types";
+
+async function lintWithDictionary(text: string, dictionary: DictionaryEntry[]) {
+  const { messages } = await lintText(text, {}, { dictionary });
+  return messages;
+}
+
+describe("dictionaryRule", () => {
+  it("reports variants and fixes them to the expected form", async () => {
+    const text = "ウィンドウとウインドウ。";
+    const messages = await lintWithDictionary(text, [
+      { expected: "ウィンドウ", patterns: ["ウインドウ"] },
+    ]);
+    expect(messages.map(m => [m.message, m.matchedText])).toEqual([
+      ["ウインドウ => ウィンドウ", "ウインドウ"],
+    ]);
+    expect(applyFixes(text, messages).output).toBe("ウィンドウとウィンドウ。");
+  });
+
+  it("does not report a pattern that is a prefix of the expected form", async () => {
+    const text = "サーバーとサーバの違い。";
+    const messages = await lintWithDictionary(text, [
+      { expected: "サーバー", patterns: ["サーバ"] },
+    ]);
+    expect(messages.map(m => m.range)).toEqual([[5, 8]]);
+    expect(applyFixes(text, messages).output).toBe(
+      "サーバーとサーバーの違い。"
+    );
+  });
+
+  it("expands capture groups in the expected form", async () => {
+    const text = "コンピュータとプリンタ。";
+    const messages = await lintWithDictionary(text, [
+      { expected: "$1ー", patterns: ["/(コンピュータ|プリンタ)/"] },
+    ]);
+    expect(messages.map(m => m.message)).toEqual([
+      "コンピュータ => コンピューター",
+      "プリンタ => プリンター",
+    ]);
+  });
+
+  it("treats case and width differences as variants when patterns are omitted", async () => {
+    const text = "GitHubとgithubとＧｉｔＨｕｂ。";
+    const messages = await lintWithDictionary(text, [
+      { expected: "GitHub", patterns: [] },
+    ]);
+    expect(messages.map(m => m.matchedText)).toEqual([
+      "github",
+      "ＧｉｔＨｕｂ",
+    ]);
+  });
+});
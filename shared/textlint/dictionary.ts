@@ -0,0 +1,171 @@
+import type { TextlintFixableRuleModule } from "@textlint/types";
+import { dump, load } from "js-yaml";
+import { z } from "zod";
+import { compilePattern, escapeRegExp, expandTemplate } from "./pattern";
+import type { DictionaryEntry } from "./types";
+
+/** 表記ゆれ辞書のルールID。textlint-rule-prh と同じIDにして、無効化コメントなども同じ書き方で使えるようにする */
+export const DICTIONARY_RULE_ID = "prh";
+
+export interface DictionaryRuleOptions {
+  rules?: DictionaryEntry[];
+}
+
+const patternsSchema = z.union([z.string(), z.array(z.string())]);
+
+// prhの辞書形式（https://github.com/prh/prh）のうち、Webチェッカーで使う項目
+const prhSchema = z.object({
+  version: z.number().optional(),
+  imports: z.unknown().optional(),
+  rules: z
+    .array(
+      z.object({
+        expected: z.string(),
+        pattern: patternsSchema.optional(),
+        patterns: patternsSchema.optional(),
+      })
+    )
+    .default([]),
+});
+
+export interface ImportedDictionary {
+  entries: DictionaryEntry[];
+  /** 読み飛ばした設定 */
+  unsupported: string[];
+}
+
+/**
+ * prh形式の辞書（YAMLまたはJSON）を読み込む。
+ * `imports` で参照する別の辞書は読み込めないため読み飛ばす
+ */
+export function parsePrhDictionary(source: string): ImportedDictionary {
+  let data: unknown;
+  try {
+    data = load(source);
+  } catch (error) {
+    throw new Error(
+      `YAMLとして読み込めません（${error instanceof Error ? error.message.split("\n")[0] : String(error)}）`
+    );
+  }
+
+  const parsed = prhSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `prhの辞書の形式が正しくありません（${issue.path.join(".") || "ルート"}: ${issue.message}）`
+    );
+  }
+
+  const entries = parsed.data.rules.map(rule => ({
+    expected: rule.expected,
+    patterns: [rule.pattern ?? [], rule.patterns ?? []].flat(),
+  }));
+  const invalid = entries.flatMap(entry =>
+    entry.patterns.flatMap(pattern =>
+      validateDictionaryPattern(pattern) ? [pattern] : []
+    )
+  );
+  if (invalid.length > 0) {
+    throw new Error(`正規表現が正しくありません: ${invalid.join(", ")}`);
+  }
+
+  return {
+    entries,
+    unsupported: parsed.data.imports === undefined ? [] : ["imports"],
+  };
+}
+
+/** 辞書をprh形式のYAMLにする */
+export function serializePrhDictionary(entries: DictionaryEntry[]): string {
+  return dump({
+    version: 1,
+    rules: entries.map(({ expected, patterns }) => ({
+      expected,
+      ...(patterns.length === 1 && { pattern: patterns[0] }),
+      ...(patterns.length > 1 && { patterns }),
+    })),
+  });
+}
+
+/** 正規表現として正しくないパターンならエラーメッセージを返す */
+export function validateDictionaryPattern(pattern: string): string | undefined {
+  try {
+    compilePattern(pattern);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// prhと同じく、パターンを省略した項目は expected の大文字・小文字、全角・半角の違いを表記ゆれとみなす
+function looseExpectedPattern(expected: string): RegExp {
+  const source = Array.from(expected)
+    .map(char => {
+      if (!/[A-Za-z0-9]/.test(char)) return escapeRegExp(char);
+      const variants = new Set(
+        [char.toLowerCase(), char.toUpperCase()].flatMap(c => [
+          c,
+          // 半角英数字と全角英数字の文字コードの差
+          String.fromCharCode(c.charCodeAt(0) + 0xfee0),
+        ])
+      );
+      return `[${Array.from(variants).join("")}]`;
+    })
+    .join("");
+  return new RegExp(source, "g");
+}
+
+function compileEntry(entry: DictionaryEntry): RegExp[] {
+  if (entry.patterns.length === 0) {
+    return entry.expected ? [looseExpectedPattern(entry.expected)] : [];
+  }
+  return entry.patterns.flatMap(pattern =>
+    validateDictionaryPattern(pattern) ? [] : [compilePattern(pattern)]
+  );
+}
+
+const reporter: TextlintFixableRuleModule<DictionaryRuleOptions>["linter"] = (
+  context,
+  options
+) => {
+  const { Syntax, RuleError, report, getSource, locator, fixer } = context;
+  const matchers = (options?.rules ?? []).map(entry => ({
+    expected: entry.expected,
+    regexps: compileEntry(entry),
+  }));
+
+  return {
+    [Syntax.Str](node) {
+      const text = getSource(node);
+      for (const { expected, regexps } of matchers) {
+        for (const regexp of regexps) {
+          for (const match of Array.from(text.matchAll(regexp))) {
+            const actual = match[0];
+            const replacement = expandTemplate(expected, match);
+            // 「サーバ => サーバー」のように期待する表記がパターンで始まる場合、
+            // すでに正しい「サーバー」にも一致するため、その位置に期待する表記があれば指摘しない
+            if (actual === "" || text.startsWith(replacement, match.index!)) {
+              continue;
+            }
+
+            const range = [match.index!, match.index! + actual.length] as const;
+            report(
+              node,
+              new RuleError(`${actual} => ${replacement}`, {
+                padding: locator.range(range),
+                fix: fixer.replaceTextRange(range, replacement),
+              })
+            );
+          }
+        }
+      }
+    },
+  };
+};
+
+/** prh形式の辞書で表記ゆれを検出し、期待する表記への置き換えを自動修正として報告するルール */
+export const dictionaryRule: TextlintFixableRuleModule<DictionaryRuleOptions> =
+  {
+    linter: reporter,
+    fixer: reporter,
+  };
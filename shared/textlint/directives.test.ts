@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { applyDirectives } from "./directives";
+import type { TextlintMessage } from "./types";
+
+// text の中で marker が最初に現れる位置の指摘を作る
+function messageAt(
+  text: string,
+  marker: string,
+  ruleId: string
+): TextlintMessage {
+  const index = text.indexOf(marker);
+  return {
+    type: "lint",
+    ruleId,
+    message: ruleId,
+    line: 1,
+    column: index + 1,
+    severity: 2,
+    range: [index, index + marker.length],
+    loc: {
+      start: { line: 1, column: index + 1 },
+      end: { line: 1, column: index + marker.length + 1 },
+    },
+    matchedText: marker,
+  };
+}
+
+function remainingRules(text: string, messages: TextlintMessage[]) {
+  return applyDirectives(text, messages).messages.map(
+    message => `${message.ruleId}:${message.matchedText}`
+  );
+}
+
+describe("applyDirectives", () => {
+  it("returns the messages unchanged when there are no directives", () => {
+    const text = "前。後。";
+    const messages = [messageAt(text, "前", "a")];
+    expect(applyDirectives(text, messages)).toEqual({
+      messages,
+      suppressions: [],
+    });
+  });
+
+  it("disables every rule from the comment to the matching enable", () => {
+    const text = [
+      "前",
+      "<!-- textlint-disable -->",
+      "中",
+      "<!-- textlint-enable -->",
+      "後",
+    ].join("\n");
+    const messages = ["前", "中", "後"].map(marker =>
+      messageAt(text, marker, "a")
+    );
+    const { messages: remaining, suppressions } = applyDirectives(
+      text,
+      messages
+    );
+    expect(remaining.map(m => m.matchedText)).toEqual(["前", "後"]);
+    expect(suppressions).toEqual([
+      { directive: "textlint-disable", line: 2, count: 1 },
+    ]);
+  });
+
+  it("disables until the end of the document without an enable", () => {
+    const text = "前\n<!-- textlint-disable -->\n中\n後";
+    expect(
+      remainingRules(
+        text,
+        ["前", "中", "後"].map(marker => messageAt(text, marker, "a"))
+      )
+    ).toEqual(["a:前"]);
+  });
+
+  it("only disables the listed rules", () => {
+    const text = "<!-- textlint-disable a, b -->\n中";
+    expect(
+      remainingRules(text, [
+        messageAt(text, "中", "a"),
+        messageAt(text, "中", "b"),
+        messageAt(text, "中", "c"),
+      ])
+    ).toEqual(["c:中"]);
+  });
+
+  it("matches rule IDs given with a preset prefix", () => {
+    const text =
+      "<!-- textlint-disable preset-ja-technical-writing/no-doubled-joshi -->\n中";
+    expect(
+      remainingRules(text, [
+        messageAt(text, "中", "no-doubled-joshi"),
+        messageAt(text, "中", "joshi"),
+      ])
+    ).toEqual(["joshi:中"]);
+  });
+
+  it("re-enables only the rules named in the enable comment", () => {
+    const text = [
+      "<!-- textlint-disable a b -->",
+      "一",
+      "<!-- textlint-enable a -->",
+      "二",
+    ].join("\n");
+    expect(
+      remainingRules(text, [
+        messageAt(text, "一", "a"),
+        messageAt(text, "一", "b"),
+        messageAt(text, "二", "a"),
+        messageAt(text, "二", "b"),
+      ])
+    ).toEqual(["a:二"]);
+  });
+
+  it("does not close a disable-all range with a rule-specific enable", () => {
+    const text = [
+      "<!-- textlint-disable -->",
+      "一",
+      "<!-- textlint-enable a -->",
+      "二",
+    ].join("\n");
+    expect(remainingRules(text, [messageAt(text, "二", "a")])).toEqual([]);
+  });
+
+  it("counts suppressed messages per directive", () => {
+    const text = [
+      "<!-- textlint-disable a -->",
+      "一",
+      "<!-- textlint-enable -->",
+      "<!-- textlint-disable -->",
+      "二",
+    ].join("\n");
+    const { suppressions } = applyDirectives(text, [
+      messageAt(text, "一", "a"),
+      messageAt(text, "一", "b"),
+      messageAt(text, "二", "a"),
+      messageAt(text, "二", "b"),
+    ]);
+    expect(suppressions).toEqual([
+      { directive: "textlint-disable a", line: 1, count: 1 },
+      { directive: "textlint-disable", line: 4, count: 2 },
+    ]);
+  });
+
+  it("does not suppress messages inside the comment itself", () => {
+    const text = "<!-- textlint-disable -->";
+    expect(
+      remainingRules(text, [messageAt(text, "textlint-disable", "a")])
+    ).toEqual(["a:textlint-disable"]);
+  });
+});
@@ -0,0 +1,90 @@
+import { createPositionResolver } from "./position";
+import type { LintSuppression, TextlintMessage } from "./types";
+
+// textlint-filter-rule-comments と同じ書式のコメント。ルールIDはカンマまたは空白で区切る
+const DIRECTIVE_PATTERN = /<!--\s*textlint-(disable|enable)\b([\s\S]*?)-->/g;
+
+/** 無効化コメントの効く範囲 */
+interface DisabledRange {
+  start: number;
+  end: number;
+  /** 無効にするルール。undefined ならすべてのルール */
+  ruleId?: string;
+  suppression: LintSuppression;
+}
+
+// `preset-ja-technical-writing/no-doubled-joshi` のようにプリセット名付きでも指定できる
+function matchesRule(ruleId: string, pattern: string): boolean {
+  return pattern === ruleId || pattern.endsWith(`/${ruleId}`);
+}
+
+function parseDisabledRanges(text: string): DisabledRange[] {
+  const toPosition = createPositionResolver(text);
+  const ranges: DisabledRange[] = [];
+  // まだ textlint-enable で閉じていない範囲
+  let open: DisabledRange[] = [];
+
+  for (const match of Array.from(text.matchAll(DIRECTIVE_PATTERN))) {
+    const [comment, kind, args] = match;
+    const index = match.index!;
+    const ruleIds = args.split(/[\s,]+/).filter(Boolean);
+
+    if (kind === "enable") {
+      const closing = open.filter(
+        range =>
+          ruleIds.length === 0 ||
+          (range.ruleId !== undefined && ruleIds.includes(range.ruleId))
+      );
+      closing.forEach(range => (range.end = index));
+      open = open.filter(range => !closing.includes(range));
+      continue;
+    }
+
+    const suppression: LintSuppression = {
+      directive: `textlint-disable${ruleIds.length > 0 ? ` ${ruleIds.join(", ")}` : ""}`,
+      line: toPosition(index).line,
+      count: 0,
+    };
+    const start = index + comment.length;
+    const added = (ruleIds.length > 0 ? ruleIds : [undefined]).map(ruleId => ({
+      start,
+      end: text.length,
+      ruleId,
+      suppression,
+    }));
+    ranges.push(...added);
+    open.push(...added);
+  }
+
+  return ranges;
+}
+
+/**
+ * `<!-- textlint-disable ルールID -->` から `<!-- textlint-enable ルールID -->` までの指摘を取り除く。
+ * ルールIDを省略するとすべてのルールが対象になる。取り除いた件数は無効化コメントごとに数える
+ */
+export function applyDirectives(
+  text: string,
+  messages: TextlintMessage[]
+): { messages: TextlintMessage[]; suppressions: LintSuppression[] } {
+  const ranges = parseDisabledRanges(text);
+  if (ranges.length === 0) return { messages, suppressions: [] };
+
+  const remaining = messages.filter(message => {
+    const [index] = message.range;
+    const range = ranges.find(
+      range =>
+        range.start <= index &&
+        index < range.end &&
+        (range.ruleId === undefined ||
+          matchesRule(message.ruleId, range.ruleId))
+    );
+    if (range) range.suppression.count++;
+    return !range;
+  });
+
+  return {
+    messages: remaining,
+    suppressions: Array.from(new Set(ranges.map(range => range.suppression))),
+  };
+}
@@ -0,0 +1,161 @@
+import {
+  TextlintKernel,
+  type TextlintMessage as KernelMessage,
+} from "@textlint/kernel";
+import { applyAllowlist } from "./allowlist";
+import { resolveCustomRules } from "./custom-rules";
+import { DICTIONARY_RULE_ID, dictionaryRule } from "./dictionary";
+import { applyDirectives } from "./directives";
+import { createPositionResolver } from "./position";
+import { resolvePlugins, resolveRules } from "./presets";
+import { SEVERITY_LEVELS, configuredSeverity } from "./severity";
+import type {
+  AllowlistEntry,
+  CustomRule,
+  DictionaryEntry,
+  LintResult,
+  TextlintConfig,
+  TextlintMessage,
+} from "./types";
+
+const kernel = new TextlintKernel();
+
+export interface LintOptions {
+  /** 拡張子。どのプラグインで解析するかが決まる */
+  ext?: string;
+  /** ルールが相対パスを解決する基準ディレクトリ。ブラウザでは process.cwd() の代わりに使われる */
+  configBaseDir?: string;
+  /** 実行するルールを絞り込む。指定しなければ設定で有効なすべてのルールを実行する */
+  filterRules?: (ruleId: string) => boolean;
+  /** 中止されると、チェックの途中でも結果を返さずに signal.reason で失敗する */
+  signal?: AbortSignal;
+  /** 表記ゆれ辞書。項目があれば prh ルールとして実行する */
+  dictionary?: DictionaryEntry[];
+  /** 設定ダイアログで定義した独自ルール。組み込みのルールと一緒に実行する */
+  customRules?: CustomRule[];
+  /** 指摘しない語。`lintMessages` では使わない */
+  allowlist?: AllowlistEntry[];
+}
+
+/**
+ * 指摘箇所の範囲を求める。`index` だけで報告するルールは範囲が1文字になるため、
+ * 修正内容（fix）が指摘位置を含んでいればその範囲まで広げる
+ */
+function spanOf(message: KernelMessage): [number, number] {
+  const [start, end] = message.range;
+  if (!message.fix) return [start, end];
+
+  const [fixStart, fixEnd] = message.fix.range;
+  if (fixStart > start || fixEnd < start) return [start, end];
+  return [fixStart, Math.max(end, fixEnd)];
+}
+
+/**
+ * `.textlintrc.json` 相当の設定でテキストをチェックする。
+ * ブラウザではWeb Workerから、Node.jsからは直接呼び出す
+ */
+export async function lintText(
+  text: string,
+  config: TextlintConfig,
+  options: LintOptions = {}
+): Promise<LintResult> {
+  return createLintResult(
+    text,
+    await lintMessages(text, config, options),
+    options.allowlist
+  );
+}
+
+/**
+ * ルールの指摘をそのまま返す。無効化コメントは反映しないため、
+ * テキストの一部だけをチェックして後で組み合わせる場合に使う
+ */
+export async function lintMessages(
+  text: string,
+  config: TextlintConfig,
+  {
+    ext = ".txt",
+    configBaseDir,
+    filterRules,
+    signal,
+    dictionary = [],
+    customRules = [],
+  }: LintOptions = {}
+): Promise<TextlintMessage[]> {
+  signal?.throwIfAborted();
+  const rules = [
+    ...resolveRules(config),
+    ...(dictionary.length > 0
+      ? [
+          {
+            ruleId: DICTIONARY_RULE_ID,
+            rule: dictionaryRule,
+            options: { rules: dictionary },
+          },
+        ]
+      : []),
+    ...resolveCustomRules(customRules),
+  ].filter(({ ruleId }) => !filterRules || filterRules(ruleId));
+  const result = await kernel.lintText(text, {
+    ext,
+    configBaseDir,
+    plugins: resolvePlugins(config),
+    rules,
+  });
+  // カーネルの実行自体は止められないため、終わった時点で中止されていれば結果を捨てる
+  signal?.throwIfAborted();
+
+  // カーネルは RuleError 以外の形で報告されたメッセージに設定の severity を反映しないため、ここでそろえる
+  const severities = new Map(
+    rules.flatMap(({ ruleId, options }) => {
+      const severity = configuredSeverity(options);
+      return severity ? [[ruleId, SEVERITY_LEVELS[severity]] as const] : [];
+    })
+  );
+
+  const toPosition = createPositionResolver(text);
+  return result.messages.map(message => {
+    const [start, end] = spanOf(message);
+    const loc = { start: toPosition(start), end: toPosition(end) };
+    return {
+      type: message.type,
+      ruleId: message.ruleId,
+      message: message.message,
+      line: loc.start.line,
+      column: loc.start.column,
+      severity: severities.get(message.ruleId) ?? message.severity,
+      range: [start, end],
+      loc,
+      matchedText: text.slice(start, end),
+      ...(message.fix && {
+        fix: { range: [...message.fix.range], text: message.fix.text },
+      }),
+    };
+  });
+}
+
+/**
+ * 文書全体の指摘に無効化コメントと許可リストを反映し、重要度ごとの件数を数えてチェック結果にする
+ */
+export function createLintResult(
+  text: string,
+  allMessages: TextlintMessage[],
+  allowlist: AllowlistEntry[] = []
+): LintResult {
+  const directives = applyDirectives(text, allMessages);
+  const { messages, allowedCount } = applyAllowlist(
+    text,
+    directives.messages,
+    allowlist
+  );
+  return {
+    messages,
+    errorCount: messages.filter(m => m.severity === SEVERITY_LEVELS.error)
+      .length,
+    warningCount: messages.filter(m => m.severity === SEVERITY_LEVELS.warning)
+      .length,
+    infoCount: messages.filter(m => m.severity === SEVERITY_LEVELS.info).length,
+    suppressions: directives.suppressions,
+    allowedCount,
+  };
+}
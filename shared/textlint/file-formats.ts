@@ -0,0 +1,15 @@
+import type { DocumentFormat } from "./types";
+
+/** チェックできるファイルの拡張子と文書形式。ブラウザで開くファイル、CLI・APIでチェックするファイルで共通 */
+export const FILE_FORMATS: Record<string, DocumentFormat> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+};
+
+/** 拡張子から文書形式を決める。チェックできないファイルなら null */
+export function formatFromFileName(name: string): DocumentFormat | null {
+  const dot = name.lastIndexOf(".");
+  if (dot === -1) return null;
+  return FILE_FORMATS[name.slice(dot).toLowerCase()] ?? null;
+}
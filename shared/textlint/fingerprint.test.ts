@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { fingerprintMessages } from "./fingerprint";
+import type { TextlintMessage } from "./types";
+
+function message(
+  text: string,
+  matched: string,
+  overrides: Partial<TextlintMessage> = {},
+  fromIndex = 0
+): TextlintMessage {
+  const start = text.indexOf(matched, fromIndex);
+  const end = start + matched.length;
+  return {
+    type: "lint",
+    ruleId: "ja-no-redundant-expression",
+    message: "冗長な表現です",
+    line: 1,
+    column: start + 1,
+    severity: 2,
+    range: [start, end],
+    loc: {
+      start: { line: 1, column: start + 1 },
+      end: { line: 1, column: end + 1 },
+    },
+    matchedText: matched,
+    ...overrides,
+  };
+}
+
+describe("fingerprintMessages", () => {
+  it("stays the same when text far from the message changes", () => {
+    const tail = "設定を変えたあとにサーバを再起動することができる。";
+    const before = `はじめに。\n\n${tail}`;
+    const after = `前書きを長く書き直しました。\n\n追加した段落です。\n\n${tail}`;
+    expect(
+      fingerprintMessages(before, [message(before, "することができる")])
+    ).toEqual(fingerprintMessages(after, [message(after, "することができる")]));
+  });
+
+  it("ignores the message wording and position", () => {
+    const text = "サーバを再起動することができる。";
+    const [a] = fingerprintMessages(text, [message(text, "することができる")]);
+    const [b] = fingerprintMessages(text, [
+      message(text, "することができる", {
+        message: "別の文言",
+        line: 3,
+        column: 10,
+      }),
+    ]);
+    expect(a).toBe(b);
+  });
+
+  it("changes when the rule, the matched text or its surroundings change", () => {
+    const text = "サーバを再起動することができる。";
+    const [base] = fingerprintMessages(text, [
+      message(text, "することができる"),
+    ]);
+    const edited = "サーバを停止することができる。";
+    expect(
+      fingerprintMessages(text, [
+        message(text, "することができる", { ruleId: "other-rule" }),
+      ])
+    ).not.toContain(base);
+    expect(
+      fingerprintMessages(text, [message(text, "再起動することができる")])
+    ).not.toContain(base);
+    expect(
+      fingerprintMessages(edited, [message(edited, "することができる")])
+    ).not.toContain(base);
+  });
+
+  it("numbers identical messages in document order", () => {
+    // 前後の文字列が指紋に含める文字数より長く同じなので、2つの指摘は出現順だけで区別される
+    const padding = "あ".repeat(20);
+    const text = `${padding}文${padding}文${padding}`;
+    const messages = [
+      message(text, "文"),
+      message(text, "文", {}, padding.length + 1),
+    ];
+    const fingerprints = fingerprintMessages(text, messages);
+    expect(fingerprints[0].replace(/:0$/, ":1")).toBe(fingerprints[1]);
+  });
+});
@@ -0,0 +1,32 @@
+import { hashString } from "./hash";
+import type { TextlintMessage } from "./types";
+
+// 指紋に含める前後の文字数
+const CONTEXT_LENGTH = 16;
+
+/**
+ * 指摘ごとの指紋を作る。ルールID・指摘箇所の文字列・前後の文字列から作るため、
+ * 行・列が変わっても、指摘箇所の近くを編集しない限り同じ値になる。
+ * 指摘の文言は件数などを含んで変わることがあるため使わない。
+ * 同じ内容の指摘が複数あれば、文書の先頭からの出現順で区別する
+ */
+export function fingerprintMessages(
+  text: string,
+  messages: TextlintMessage[]
+): string[] {
+  const occurrences = new Map<string, number>();
+
+  return messages.map(({ ruleId, range: [start, end] }) => {
+    const hash = hashString(
+      [
+        ruleId,
+        text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+        text.slice(start, end),
+        text.slice(end, end + CONTEXT_LENGTH),
+      ].join("\0")
+    );
+    const occurrence = occurrences.get(hash) ?? 0;
+    occurrences.set(hash, occurrence + 1);
+    return `${ruleId}:${hash}:${occurrence}`;
+  });
+}
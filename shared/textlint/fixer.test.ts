@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { applyFixes } from "./fixer";
+import type { TextlintMessage } from "./types";
+
+function message(
+  ruleId: string,
+  range: [number, number],
+  fixText?: string
+): TextlintMessage {
+  return {
+    type: "lint",
+    ruleId,
+    message: ruleId,
+    line: 1,
+    column: range[0] + 1,
+    severity: 2,
+    range,
+    loc: {
+      start: { line: 1, column: range[0] + 1 },
+      end: { line: 1, column: range[1] + 1 },
+    },
+    matchedText: "",
+    fix: fixText === undefined ? undefined : { range, text: fixText },
+  };
+}
+
+describe("applyFixes", () => {
+  it("applies fixes in position order regardless of message order", () => {
+    const last = message("b", [6, 8], "ee");
+    const first = message("a", [0, 2], "AA");
+    const { output, applied, remaining } = applyFixes("aabbccdd", [
+      last,
+      first,
+    ]);
+    expect(output).toBe("AAbbccee");
+    expect(applied).toEqual([first, last]);
+    expect(remaining).toEqual([]);
+  });
+
+  it("handles insertions, deletions and fixes at both ends", () => {
+    const { output } = applyFixes("abcdef", [
+      message("insert", [0, 0], "["),
+      message("delete", [2, 4], ""),
+      message("append", [6, 6], "]"),
+    ]);
+    expect(output).toBe("[abef]");
+  });
+
+  it("skips fixes that overlap an earlier fix", () => {
+    const outer = message("outer", [1, 5], "X");
+    const inner = message("inner", [2, 3], "Y");
+    const overlapping = message("overlapping", [4, 6], "Z");
+    const { output, applied, remaining } = applyFixes("abcdefg", [
+      inner,
+      overlapping,
+      outer,
+    ]);
+    expect(output).toBe("aXfg");
+    expect(applied).toEqual([outer]);
+    expect(remaining).toEqual([inner, overlapping]);
+  });
+
+  it("prefers the shorter fix when two start at the same position", () => {
+    const long = message("long", [0, 3], "L");
+    const short = message("short", [0, 1], "S");
+    const { output, applied } = applyFixes("abc", [long, short]);
+    expect(output).toBe("Sbc");
+    expect(applied).toEqual([short]);
+  });
+
+  it("treats adjacent fixes as overlapping like textlint", () => {
+    const { output, remaining } = applyFixes("abcd", [
+      message("a", [0, 2], "X"),
+      message("b", [2, 4], "Y"),
+    ]);
+    expect(output).toBe("Xcd");
+    expect(remaining.map(m => m.ruleId)).toEqual(["b"]);
+  });
+
+  it("keeps messages without a fix as remaining", () => {
+    const unfixable = message("unfixable", [0, 1]);
+    const { output, applied, remaining } = applyFixes("abc", [unfixable]);
+    expect(output).toBe("abc");
+    expect(applied).toEqual([]);
+    expect(remaining).toEqual([unfixable]);
+  });
+});
@@ -0,0 +1,45 @@
+import type { TextlintMessage } from "./types";
+
+export interface FixResult {
+  /** 修正を適用した後のテキスト */
+  output: string;
+  /** 適用した修正のメッセージ */
+  applied: TextlintMessage[];
+  /** 修正できなかった（fixがない、または他の修正と重なった）メッセージ */
+  remaining: TextlintMessage[];
+}
+
+/**
+ * メッセージの fix をテキストに適用する。
+ * textlintの SourceCodeFixer と同じく、先に適用した修正と範囲が重なる修正は適用しない
+ */
+export function applyFixes(
+  text: string,
+  messages: TextlintMessage[]
+): FixResult {
+  const applied: TextlintMessage[] = [];
+  const remaining = messages.filter(message => !message.fix);
+  const fixable = messages
+    .filter(message => message.fix)
+    .sort(
+      (a, b) =>
+        a.fix!.range[0] - b.fix!.range[0] || a.fix!.range[1] - b.fix!.range[1]
+    );
+
+  let output = "";
+  let lastEnd = -1;
+  for (const message of fixable) {
+    const [start, end] = message.fix!.range;
+    if (start <= lastEnd) {
+      remaining.push(message);
+      continue;
+    }
+
+    output += text.slice(Math.max(lastEnd, 0), start) + message.fix!.text;
+    lastEnd = end;
+    applied.push(message);
+  }
+  output += text.slice(Math.max(lastEnd, 0));
+
+  return { output, applied, remaining };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCSV,
+  formatJUnit,
+  formatSARIF,
+  type FileLintResult,
+} from "./formatters";
+import type { LintResult, TextlintMessage } from "./types";
+
+function message(overrides: Partial<TextlintMessage>): TextlintMessage {
+  return {
+    type: "lint",
+    ruleId: "no-doubled-joshi",
+    message: '一文に二回以上利用されている助詞 "の" がみつかりました。',
+    line: 2,
+    column: 3,
+    severity: 2,
+    range: [5, 6],
+    loc: { start: { line: 2, column: 3 }, end: { line: 2, column: 4 } },
+    matchedText: "の",
+    ...overrides,
+  };
+}
+
+function result(messages: TextlintMessage[]): LintResult {
+  return {
+    messages,
+    errorCount: messages.filter(m => m.severity === 2).length,
+    warningCount: messages.filter(m => m.severity === 1).length,
+    infoCount: messages.filter(m => m.severity === 3).length,
+    suppressions: [],
+    allowedCount: 0,
+  };
+}
+
+describe("formatSARIF", () => {
+  it("lists each rule once and points results at them", () => {
+    const output = JSON.parse(
+      formatSARIF([
+        {
+          filePath: "docs\\日本語 ファイル.md",
+          result: result([
+            message({ ruleId: "sentence-length", severity: 3 }),
+            message({}),
+            message({ ruleId: "sentence-length", severity: 1 }),
+          ]),
+        },
+      ])
+    );
+    const [run] = output.runs;
+    expect(output.version).toBe("2.1.0");
+    expect(
+      run.tool.driver.rules.map((rule: { id: string }) => rule.id)
+    ).toEqual(["no-doubled-joshi", "sentence-length"]);
+    expect(
+      run.results.map((r: { ruleIndex: number; level: string }) => [
+        r.ruleIndex,
+        r.level,
+      ])
+    ).toEqual([
+      [1, "note"],
+      [0, "error"],
+      [1, "warning"],
+    ]);
+    expect(
+      run.results[0].locations[0].physicalLocation.artifactLocation.uri
+    ).toBe(
+      "docs/%E6%97%A5%E6%9C%AC%E8%AA%9E%20%E3%83%95%E3%82%A1%E3%82%A4%E3%83%AB.md"
+    );
+    expect(run.results[0].locations[0].physicalLocation.region).toEqual({
+      startLine: 2,
+      startColumn: 3,
+      endLine: 2,
+      endColumn: 4,
+    });
+  });
+
+  it("keeps quotes and newlines in messages as valid JSON", () => {
+    const text = 'He said "hi"\n\\ <b>';
+    const output = JSON.parse(
+      formatSARIF([
+        { filePath: "a.md", result: result([message({ message: text })]) },
+      ])
+    );
+    expect(output.runs[0].results[0].message.text).toBe(text);
+  });
+});
+
+describe("formatJUnit", () => {
+  it("escapes XML special characters in paths and messages", () => {
+    const output = formatJUnit([
+      {
+        filePath: `a&b<"c">'.md`,
+        result: result([message({ message: `<tag> & "quote" 'apos'` })]),
+      },
+    ]);
+    expect(output).toContain(
+      `<testsuite name="a&amp;b&lt;&quot;c&quot;&gt;&apos;.md" tests="1" failures="1"`
+    );
+    expect(output).toContain(
+      `<failure message="&lt;tag&gt; &amp; &quot;quote&quot; &apos;apos&apos;" type="error">`
+    );
+    expect(output).not.toMatch(/<tag>|& "/);
+  });
+
+  it("writes a passing test case for files without messages", () => {
+    const output = formatJUnit([{ filePath: "ok.md", result: result([]) }]);
+    expect(output).toContain(
+      '<testsuite name="ok.md" tests="1" failures="0" errors="0" time="0">\n    <testcase time="0" name="ok.md" />'
+    );
+    expect(output.startsWith('<?xml version="1.0" encoding="utf-8"?>')).toBe(
+      true
+    );
+  });
+});
+
+describe("formatCSV", () => {
+  it("quotes fields containing commas, quotes and newlines", () => {
+    const results: FileLintResult[] = [
+      {
+        filePath: "dir,name/a.md",
+        result: result([
+          message({
+            message: 'say "hi",\nthen go',
+            matchedText: "plain",
+            fix: { range: [5, 6], text: "a\r\nb" },
+          }),
+        ]),
+      },
+    ];
+    expect(formatCSV(results)).toBe(
+      "filePath,line,column,severity,ruleId,message,matchedText,fix\r\n" +
+        '"dir,name/a.md",2,3,error,no-doubled-joshi,"say ""hi"",\nthen go",plain,"a\r\nb"\r\n'
+    );
+  });
+
+  it("writes only the header when there are no messages", () => {
+    expect(formatCSV([{ filePath: "a.md", result: result([]) }])).toBe(
+      "filePath,line,column,severity,ruleId,message,matchedText,fix\r\n"
+    );
+  });
+});
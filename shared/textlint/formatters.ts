@@ -0,0 +1,311 @@
+import { RULE_CATALOG } from "./catalog";
+import { severityName, type SeverityName } from "./severity";
+import type { LintResult, TextlintMessage } from "./types";
+
+/** ファイルごとのチェック結果 */
+export interface FileLintResult {
+  /** 出力に表示するファイルのパス */
+  filePath: string;
+  result: LintResult;
+}
+
+export type FormatterName =
+  | "stylish"
+  | "compact"
+  | "json"
+  | "sarif"
+  | "junit"
+  | "csv";
+
+export interface Formatter {
+  /** 画面のメニューに表示する名前 */
+  label: string;
+  /** 書き出すファイルの拡張子 */
+  extension: string;
+  mimeType: string;
+  /** ファイルに保存するときに BOM を付けるか（Excel で開いたときに文字化けしないように） */
+  bom?: boolean;
+  format: (results: FileLintResult[]) => string;
+}
+
+/** 出力形式ごとのフォーマッター。CLIの `--format` や画面のエクスポートで選ぶ */
+export const FORMATTERS: Record<FormatterName, Formatter> = {
+  stylish: {
+    label: "stylish（テキスト）",
+    extension: ".txt",
+    mimeType: "text/plain",
+    format: formatStylish,
+  },
+  compact: {
+    label: "compact（テキスト）",
+    extension: ".txt",
+    mimeType: "text/plain",
+    format: formatCompact,
+  },
+  json: {
+    label: "JSON",
+    extension: ".json",
+    mimeType: "application/json",
+    format: formatJSON,
+  },
+  sarif: {
+    label: "SARIF 2.1.0",
+    extension: ".sarif",
+    mimeType: "application/sarif+json",
+    format: formatSARIF,
+  },
+  junit: {
+    label: "JUnit XML",
+    extension: ".xml",
+    mimeType: "application/xml",
+    format: formatJUnit,
+  },
+  csv: {
+    label: "CSV",
+    extension: ".csv",
+    mimeType: "text/csv",
+    bom: true,
+    format: formatCSV,
+  },
+};
+
+export const FORMATTER_NAMES = Object.keys(FORMATTERS) as FormatterName[];
+
+export function isFormatterName(name: string): name is FormatterName {
+  return Object.hasOwn(FORMATTERS, name);
+}
+
+function count(results: FileLintResult[], key: keyof LintResult): number {
+  return results.reduce(
+    (total, { result }) => total + (result[key] as number),
+    0
+  );
+}
+
+function plural(value: number, word: string): string {
+  return `${value} ${word}${value === 1 ? "" : "s"}`;
+}
+
+/** textlint の stylish と同じく、ファイルごとに「行:列 重要度 メッセージ ルールID」を並べる */
+export function formatStylish(results: FileLintResult[]): string {
+  const lines: string[] = [];
+
+  for (const { filePath, result } of results) {
+    if (result.messages.length === 0) continue;
+    const rows = result.messages.map(message => [
+      `${message.line}:${message.column}`,
+      severityName(message.severity),
+      message.message.replace(/\n/g, " "),
+      message.ruleId,
+    ]);
+    const widths = [0, 1, 2].map(column =>
+      Math.max(...rows.map(row => row[column].length))
+    );
+
+    lines.push(filePath);
+    for (const row of rows) {
+      const cells = row.map((cell, column) =>
+        column < widths.length ? cell.padEnd(widths[column]) : cell
+      );
+      lines.push(`  ${cells.join("  ")}`);
+    }
+    lines.push("");
+  }
+
+  const problems =
+    count(results, "errorCount") +
+    count(results, "warningCount") +
+    count(results, "infoCount");
+  if (problems === 0) return "";
+
+  lines.push(
+    `✖ ${plural(problems, "problem")} (${plural(count(results, "errorCount"), "error")}, ${plural(count(results, "warningCount"), "warning")}, ${plural(count(results, "infoCount"), "info")})`
+  );
+  return `${lines.join("\n")}\n`;
+}
+
+/** textlint の compact と同じく、1件の指摘を「パス: line 行, col 列, 重要度 - メッセージ (ルールID)」の1行にする */
+export function formatCompact(results: FileLintResult[]): string {
+  const lines = results.flatMap(({ filePath, result }) =>
+    result.messages.map(message => {
+      const severity = severityName(message.severity);
+      return `${filePath}: line ${message.line}, col ${message.column}, ${severity[0].toUpperCase()}${severity.slice(1)} - ${message.message.replace(/\n/g, " ")} (${message.ruleId})`;
+    })
+  );
+  if (lines.length === 0) return "";
+  return `${lines.join("\n")}\n\n${plural(lines.length, "problem")}\n`;
+}
+
+/** textlint の json と同じく、ファイルごとのパスと指摘の配列にする */
+export function formatJSON(results: FileLintResult[]): string {
+  return `${JSON.stringify(
+    results.map(({ filePath, result }) => ({ filePath, ...result })),
+    null,
+    2
+  )}\n`;
+}
+
+const SARIF_LEVELS: Record<SeverityName, string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+// Windows のパス区切りを含めて、SARIF の artifactLocation.uri に使える相対URIにする
+function toUri(filePath: string): string {
+  return encodeURI(filePath.replace(/\\/g, "/"));
+}
+
+/**
+ * SARIF 2.1.0 形式にする。GitHub の code scanning などに読み込ませられる。
+ * 行・列は SARIF の既定と同じ1始まりで、終わりの列は範囲に含まない
+ */
+export function formatSARIF(results: FileLintResult[]): string {
+  const ruleIds = Array.from(
+    new Set(
+      results.flatMap(({ result }) =>
+        result.messages.map(message => message.ruleId)
+      )
+    )
+  ).sort();
+
+  const rules = ruleIds.map(id => {
+    const entry = RULE_CATALOG.find(rule => rule.id === id);
+    return entry
+      ? {
+          id,
+          name: entry.name,
+          shortDescription: { text: entry.description },
+          helpUri: entry.docsUrl,
+        }
+      : { id };
+  });
+
+  const sarifResults = results.flatMap(({ filePath, result }) =>
+    result.messages.map(message => ({
+      ruleId: message.ruleId,
+      ruleIndex: ruleIds.indexOf(message.ruleId),
+      level: SARIF_LEVELS[severityName(message.severity)],
+      message: { text: message.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: toUri(filePath) },
+            region: {
+              startLine: message.loc.start.line,
+              startColumn: message.loc.start.column,
+              endLine: message.loc.end.line,
+              endColumn: message.loc.end.column,
+            },
+          },
+        },
+      ],
+    }))
+  );
+
+  return `${JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "textlint-web-checker",
+              rules,
+            },
+          },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2
+  )}\n`;
+}
+
+function escapeXML(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    char =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[char]!
+  );
+}
+
+function junitTestCase(message: TextlintMessage): string {
+  const severity = severityName(message.severity);
+  const detail = `line ${message.line}, col ${message.column}, ${severity} - ${message.message} (${message.ruleId})`;
+  return [
+    `    <testcase time="0" name="${escapeXML(`textlint.rule.${message.ruleId}`)}">`,
+    `      <failure message="${escapeXML(message.message)}" type="${severity}">${escapeXML(detail)}</failure>`,
+    "    </testcase>",
+  ].join("\n");
+}
+
+/**
+ * JUnit XML 形式にする。ファイルを testsuite、指摘を1件ずつ失敗した testcase として出力する。
+ * 指摘のないファイルは、成功した testcase を1つだけ持つ testsuite にする
+ */
+export function formatJUnit(results: FileLintResult[]): string {
+  const suites = results.map(({ filePath, result }) => {
+    const name = escapeXML(filePath);
+    const cases =
+      result.messages.length > 0
+        ? result.messages.map(junitTestCase)
+        : [`    <testcase time="0" name="${name}" />`];
+    return [
+      `  <testsuite name="${name}" tests="${cases.length}" failures="${result.messages.length}" errors="0" time="0">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<testsuites>",
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+// カンマ・引用符・改行を含む値は引用符で囲む（RFC 4180）
+function csvField(value: string | number): string {
+  const field = String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/** 1件の指摘を1行にしたCSVにする。表計算ソフトで並べ替えや絞り込みをしながら確認する用途 */
+export function formatCSV(results: FileLintResult[]): string {
+  const header = [
+    "filePath",
+    "line",
+    "column",
+    "severity",
+    "ruleId",
+    "message",
+    "matchedText",
+    "fix",
+  ];
+  const rows = results.flatMap(({ filePath, result }) =>
+    result.messages.map(message => [
+      filePath,
+      message.line,
+      message.column,
+      severityName(message.severity),
+      message.ruleId,
+      message.message,
+      message.matchedText,
+      message.fix?.text ?? "",
+    ])
+  );
+  return [header, ...rows]
+    .map(row => `${row.map(csvField).join(",")}\r\n`)
+    .join("");
+}
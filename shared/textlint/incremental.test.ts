@@ -0,0 +1,269 @@
+import fs from "node:fs";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { lintMessages, lintText } from "./engine";
+import { createIncrementalLinter, splitParagraphs } from "./incremental";
+import type { LintResult, TextlintConfig } from "./types";
+
+// チェックした文字列を確かめるため、lintMessages を呼び出しを記録する関数に置き換える
+vi.mock("./engine", async importOriginal => {
+  const actual = await importOriginal<typeof import("./engine")>();
+  return { ...actual, lintMessages: vi.fn(actual.lintMessages) };
+});
+
+const config: TextlintConfig = JSON.parse(
+  fs.readFileSync(
+    path.resolve(import.meta.dirname, "../../.textlintrc.json"),
+    "utf8"
+  )
+);
+
+// 段落ごとにチェックした文字列（文書全体を見るルールの呼び出しは除く）
+function paragraphBatches(): string[] {
+  return vi
+    .mocked(lintMessages)
+    .mock.calls.filter(
+      ([, , options]) => !options?.filterRules?.("no-mix-dearu-desumasu")
+    )
+    .map(([text]) => text);
+}
+
+// 同じ位置の指摘の並び順は問わない
+function normalize(result: LintResult) {
+  return {
+    ...result,
+    messages: [...result.messages].sort(
+      (a, b) =>
+        a.range[0] - b.range[0] ||
+        a.range[1] - b.range[1] ||
+        a.ruleId.localeCompare(b.ruleId) ||
+        a.message.localeCompare(b.message)
+    ),
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(lintMessages).mockClear();
+});
+
+describe("splitParagraphs", () => {
+  it("splits on blank lines and keeps offsets", () => {
+    const text = "一つ目。\n続き。\n\n\n二つ目。\n";
+    expect(splitParagraphs(text, ".txt")).toEqual([
+      { text: "一つ目。\n続き。", offset: 0 },
+      { text: "二つ目。", offset: text.indexOf("二つ目") },
+    ]);
+  });
+
+  it("treats whitespace-only lines as blank", () => {
+    expect(splitParagraphs("a\n  \nb", ".txt").map(p => p.text)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("does not split inside Markdown code fences", () => {
+    const text = "前。\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\n後。";
+    expect(splitParagraphs(text, ".md").map(p => p.text)).toEqual([
+      "前。",
+      "```js\nconst a = 1;\n\nconst b = 2;\n```",
+      "後。",
+    ]);
+  });
+
+  it("only closes a fence with the same marker of at least the same length", () => {
+    const text = "````\na\n```\n\nb\n````\n\nc";
+    expect(splitParagraphs(text, ".md").map(p => p.text)).toEqual([
+      "````\na\n```\n\nb\n````",
+      "c",
+    ]);
+  });
+
+  it("keeps lists and blockquotes whole in Markdown", () => {
+    const text =
+      "- 項目です。\n\n    説明です。\n\n- 次の項目です。\n\n> 引用\n>\n> 続き\n\n段落";
+    expect(splitParagraphs(text, ".md").map(p => p.text)).toEqual([
+      "- 項目です。\n\n    説明です。\n\n- 次の項目です。",
+      "> 引用\n>\n> 続き",
+      "段落",
+    ]);
+  });
+
+  it("splits Markdown blocks that are not separated by blank lines", () => {
+    const text = "# 見出し\n段落です。\n- 項目";
+    expect(splitParagraphs(text, ".md")).toEqual([
+      { text: "# 見出し", offset: 0 },
+      { text: "段落です。", offset: text.indexOf("段落") },
+      { text: "- 項目", offset: text.indexOf("- 項目") },
+    ]);
+  });
+
+  it("skips front matter", () => {
+    expect(
+      splitParagraphs("---\ntitle: a\n---\n\n本文。", ".md").map(p => p.text)
+    ).toEqual(["本文。"]);
+  });
+
+  it("does not split documents with link or footnote definitions", () => {
+    for (const text of [
+      "[リンク][a]です。\n\n[a]: https://example.com",
+      "本文[^1]です。\n\n[^1]: 注です。",
+    ]) {
+      expect(splitParagraphs(text, ".md")).toEqual([{ text, offset: 0 }]);
+    }
+  });
+
+  it("splits fenced blocks in plain text", () => {
+    expect(splitParagraphs("```\na\n\nb\n```", ".txt")).toHaveLength(2);
+  });
+});
+
+describe("createIncrementalLinter", () => {
+  it("only lints paragraphs that changed", async () => {
+    const lint = createIncrementalLinter();
+    await lint("一つ目の段落です。\n\n二つ目の段落です。", config);
+    expect(paragraphBatches()).toEqual([
+      "一つ目の段落です。\n\n二つ目の段落です。",
+    ]);
+
+    vi.mocked(lintMessages).mockClear();
+    await lint("一つ目の段落です。\n\n書き換えた段落です。", config);
+    expect(paragraphBatches()).toEqual(["書き換えた段落です。"]);
+  });
+
+  it("does not lint again when only the position of a paragraph changes", async () => {
+    const lint = createIncrementalLinter();
+    await lint("段落です。", config);
+
+    vi.mocked(lintMessages).mockClear();
+    await lint("新しい段落です。\n\n段落です。", config);
+    expect(paragraphBatches()).toEqual(["新しい段落です。"]);
+  });
+
+  it("keys the cache on the options as well as the text", async () => {
+    const lint = createIncrementalLinter();
+    await lint("段落です。", config, { ext: ".txt" });
+
+    vi.mocked(lintMessages).mockClear();
+    await lint("段落です。", config, { ext: ".md" });
+    await lint("段落です。", config, {
+      ext: ".md",
+      dictionary: [{ expected: "段落", patterns: ["だんらく"] }],
+    });
+    expect(paragraphBatches()).toEqual(["段落です。", "段落です。"]);
+  });
+
+  it("evicts the least recently used paragraphs", async () => {
+    // 文書全体の結果も1件として数える
+    const lint = createIncrementalLinter({ maxCacheEntries: 4 });
+    await lint("一。", config);
+    await lint("二。", config);
+    // 「一。」を使い直し、「二。」を最も古いものにする
+    await lint("一。", config);
+    await lint("三。", config);
+
+    vi.mocked(lintMessages).mockClear();
+    await lint("一。\n\n二。", config);
+    expect(paragraphBatches()).toEqual(["二。"]);
+  });
+
+  it("shifts cached messages to the new position", async () => {
+    const lint = createIncrementalLinter();
+    await lint("私は考えれる。", config);
+    const result = await lint("前の段落です。\n\n私は考えれる。", config);
+
+    const message = result.messages.find(
+      m => m.ruleId === "no-dropping-the-ra"
+    );
+    expect(message).toMatchObject({
+      line: 3,
+      column: 5,
+      matchedText: "れ",
+    });
+    expect(message!.range[0]).toBe("前の段落です。\n\n私は考え".length);
+  });
+
+  describe("matches a full lint after edits", () => {
+    const markdown = [
+      "# 見出し",
+      "",
+      "これは問題ないでしょう。。",
+      "",
+      "- 項目の一つ目です",
+      "- 私は考えれる",
+      "",
+      "```js",
+      "const a = 1;",
+      "",
+      "const b = 2;",
+      "```",
+      "",
+      "最後の段落である。",
+      "",
+    ].join("\n");
+
+    const edits: [string, (text: string) => string][] = [
+      ["prepend a paragraph", text => `追加した段落です。。\n\n${text}`],
+      [
+        "edit inside a list",
+        text => text.replace("- 項目の一つ目です", "- 項目の一つ目ですです"),
+      ],
+      [
+        "edit inside a fence",
+        text => text.replace("const b = 2;", "const b = 2;\n\n見れる。"),
+      ],
+      [
+        "merge paragraphs",
+        text => text.replace("。。\n\n- 項目", "。。\n- 項目"),
+      ],
+      [
+        "split a paragraph",
+        text => text.replace("- 私は考えれる", "\n私は考えれる"),
+      ],
+      ["delete everything but one paragraph", () => "私は考えれる。"],
+    ];
+
+    for (const [name, edit] of edits) {
+      it(name, async () => {
+        const lint = createIncrementalLinter();
+        await lint(markdown, config, { ext: ".md" });
+
+        const edited = edit(markdown);
+        const incremental = await lint(edited, config, { ext: ".md" });
+        const full = await lintText(edited, config, { ext: ".md" });
+        expect(normalize(incremental)).toEqual(normalize(full));
+      });
+    }
+  });
+
+  it("matches a full lint after editing a list item's continuation paragraph", async () => {
+    const text = "- 項目です。\n\n    説明です。\n\n- 次の項目です。\n";
+    const edited = text.replace(
+      "    説明です。",
+      "    サーバを再起動することができる。"
+    );
+    const lint = createIncrementalLinter();
+    await lint(text, config, { ext: ".md" });
+
+    const incremental = await lint(edited, config, { ext: ".md" });
+    const full = await lintText(edited, config, { ext: ".md" });
+    expect(full.messages).toContainEqual(
+      expect.objectContaining({
+        ruleId: "ja-no-redundant-expression",
+        range: [20, 29],
+      })
+    );
+    expect(normalize(incremental)).toEqual(normalize(full));
+  });
+
+  it("matches a full lint when a reference definition changes", async () => {
+    const text = "[リンク][a]です。\n\n[a]: https://example.com\n";
+    const lint = createIncrementalLinter();
+    await lint(text, config, { ext: ".md" });
+
+    const edited = text.replace("[a]: https://example.com\n", "");
+    const incremental = await lint(edited, config, { ext: ".md" });
+    const full = await lintText(edited, config, { ext: ".md" });
+    expect(normalize(incremental)).toEqual(normalize(full));
+  });
+});
@@ -0,0 +1,213 @@
+import markdownPlugin from "@textlint/textlint-plugin-markdown";
+import { createLintResult, lintMessages, type LintOptions } from "./engine";
+import { hashString } from "./hash";
+import { interop } from "./interop";
+import { createPositionResolver, shiftMessage } from "./position";
+import type { LintResult, TextlintConfig, TextlintMessage } from "./types";
+
+/**
+ * 段落をまたいで文書全体を見るルール。段落ごとには分けず、毎回文書全体でチェックする
+ */
+export const DOCUMENT_RULE_IDS: readonly string[] = [
+  // 文書全体で「です・ます」と「である」が混在していないかを見る
+  "no-mix-dearu-desumasu",
+  // 文書全体の指摘件数をまとめて報告する
+  "ai-tech-writing-guideline",
+  // コロンで終わる段落と、空行を挟んで続くリストやコードブロックの組を見る
+  "no-ai-colon-continuation",
+];
+
+// 段落ごとの結果を保持する上限。古く使われていないものから捨てる
+const MAX_CACHE_ENTRIES = 5000;
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+
+// 段落を分けるために、チェックと同じMarkdownのパーサーで文書の構造を読む
+const markdownProcessor = new (interop<typeof markdownPlugin>(
+  markdownPlugin
+).Processor)().processor(".md");
+
+// 他の段落から参照される定義。段落を分けてチェックすると参照が解決できなくなる
+const DEFINITION_NODE_TYPES = ["Definition", "footnoteDefinition"];
+
+// 構文木の最上位のノードのうち、段落を分けるのに使う部分
+interface BlockNode {
+  type: string;
+  range: readonly [number, number];
+}
+
+export interface Paragraph {
+  text: string;
+  /** 文書の中での開始位置 */
+  offset: number;
+}
+
+// 空行で分ける。プレーンテキストは空行で段落が分かれる
+function splitByBlankLines(text: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let start = -1;
+  let end = 0;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") {
+      if (start >= 0) {
+        paragraphs.push({ text: text.slice(start, end), offset: start });
+        start = -1;
+      }
+    } else {
+      if (start < 0) start = offset;
+      end = offset + line.length;
+    }
+    offset += line.length + 1;
+  }
+  if (start >= 0) {
+    paragraphs.push({ text: text.slice(start, end), offset: start });
+  }
+
+  return paragraphs;
+}
+
+// 最上位のブロック（段落・見出し・リスト・引用・コードブロックなど）ごとに分ける。
+// リストや引用は空行を挟んでいても丸ごと1つにし、単独でチェックしても同じ構文木になるようにする
+function splitMarkdownBlocks(text: string): Paragraph[] {
+  const result = markdownProcessor.preProcess(text);
+  const { children }: { children: BlockNode[] } =
+    "ast" in result ? result.ast : result;
+  if (children.some(node => DEFINITION_NODE_TYPES.includes(node.type))) {
+    return text.trim() ? [{ text, offset: 0 }] : [];
+  }
+  return (
+    children
+      // フロントマターは文書の先頭でなければフロントマターとして読まれず、チェックするルールもない
+      .filter(node => node.type !== "Yaml")
+      .map(node => ({
+        text: text.slice(node.range[0], node.range[1]),
+        offset: node.range[0],
+      }))
+  );
+}
+
+/**
+ * 文書を段落に分ける。Markdownは最上位のブロックごとに分け、リンクの定義や脚注があれば分けない。
+ * プレーンテキストは空行で分ける
+ */
+export function splitParagraphs(text: string, ext: string): Paragraph[] {
+  return MARKDOWN_EXTENSIONS.includes(ext)
+    ? splitMarkdownBlocks(text)
+    : splitByBlankLines(text);
+}
+
+/**
+ * 段落ごとに結果をキャッシュしながらチェックする関数を作る。
+ * 前回から変わった段落だけをチェックし、変わっていない段落は位置をずらして結果を使い回す。
+ * 結果は `lintText` で文書全体をチェックした場合と同じ形になる（無効化コメントも文書全体で反映する）
+ */
+export function createIncrementalLinter({
+  maxCacheEntries = MAX_CACHE_ENTRIES,
+}: {
+  /** 段落ごとの結果を保持する上限 */
+  maxCacheEntries?: number;
+} = {}): (
+  text: string,
+  config: TextlintConfig,
+  options?: LintOptions
+) => Promise<LintResult> {
+  // キー: 設定のハッシュ + 段落のハッシュ、値: 段落の先頭を0とした指摘
+  const cache = new Map<string, TextlintMessage[]>();
+
+  const remember = (key: string, messages: TextlintMessage[]) => {
+    // Mapは挿入順を保つため、入れ直すことで最近使ったものを末尾に置く
+    cache.delete(key);
+    cache.set(key, messages);
+    if (cache.size > maxCacheEntries) {
+      cache.delete(cache.keys().next().value!);
+    }
+  };
+
+  return async (text, config, options = {}) => {
+    const ext = options.ext ?? ".txt";
+    const configKey = hashString(
+      JSON.stringify({
+        config,
+        ext,
+        configBaseDir: options.configBaseDir,
+        dictionary: options.dictionary,
+        customRules: options.customRules,
+      })
+    );
+    const keyOf = (source: string) => `${configKey}:${hashString(source)}`;
+
+    const paragraphs = splitParagraphs(text, ext).map(paragraph => ({
+      ...paragraph,
+      key: keyOf(paragraph.text),
+    }));
+
+    // 今回の文書の段落ごとの指摘。キャッシュにない段落はこの後チェックして追加する
+    const results = new Map<string, TextlintMessage[]>();
+    const changed = new Map<string, string>();
+    for (const { key, text: source } of paragraphs) {
+      const cached = cache.get(key);
+      if (cached) results.set(key, cached);
+      else changed.set(key, source);
+    }
+
+    // 変わった段落は空行でつないで1回でチェックし、段落ごとの結果に分ける
+    if (changed.size > 0) {
+      const starts: number[] = [];
+      let batch = "";
+      for (const source of Array.from(changed.values())) {
+        if (batch) batch += "\n\n";
+        starts.push(batch.length);
+        batch += source;
+      }
+
+      // 途中で中止されても、チェックし終えた段落の結果は次のチェックで使えるようにキャッシュに残す
+      options.signal?.throwIfAborted();
+      const batchMessages = await lintMessages(batch, config, {
+        ...options,
+        signal: undefined,
+        filterRules: ruleId => !DOCUMENT_RULE_IDS.includes(ruleId),
+      });
+      const grouped = starts.map((): TextlintMessage[] => []);
+      for (const message of batchMessages) {
+        let index = starts.length - 1;
+        while (index > 0 && starts[index] > message.range[0]) index--;
+        grouped[index].push(message);
+      }
+      // 位置は段落の先頭からの値で持ち、行・列は組み立てるときに求める
+      const toLocal = createPositionResolver("");
+      Array.from(changed.keys()).forEach((key, index) => {
+        const messages = grouped[index].map(message =>
+          shiftMessage(message, -starts[index], toLocal)
+        );
+        results.set(key, messages);
+        remember(key, messages);
+      });
+    }
+
+    // 文書全体を見るルールは、文書が変わっていなければ前回の結果を使う
+    const documentKey = `${keyOf(text)}:document`;
+    let documentMessages = cache.get(documentKey);
+    if (!documentMessages) {
+      documentMessages = await lintMessages(text, config, {
+        ...options,
+        filterRules: ruleId => DOCUMENT_RULE_IDS.includes(ruleId),
+      });
+    }
+    results.forEach((messages, key) => remember(key, messages));
+    remember(documentKey, documentMessages);
+
+    const toPosition = createPositionResolver(text);
+    const messages = [
+      ...paragraphs.flatMap(paragraph =>
+        results
+          .get(paragraph.key)!
+          .map(message => shiftMessage(message, paragraph.offset, toPosition))
+      ),
+      ...documentMessages,
+    ].sort((a, b) => a.range[0] - b.range[0]);
+
+    return createLintResult(text, messages, options.allowlist);
+  };
+}
@@ -0,0 +1,23 @@
+// Babel や TypeScript が出力した CommonJS（`exports.default` と `__esModule`）
+interface TranspiledModule {
+  __esModule: true;
+  default: unknown;
+}
+
+function isTranspiledModule(mod: unknown): mod is TranspiledModule {
+  return (
+    typeof mod === "object" &&
+    mod !== null &&
+    "__esModule" in mod &&
+    mod.__esModule === true &&
+    "default" in mod
+  );
+}
+
+/**
+ * CommonJSの `exports.default` 形式と `module.exports` 形式の両方を受け付け、モジュールの本体を返す。
+ * 中身は確かめないため、T はパッケージの型定義に合わせて呼び出し側で指定する
+ */
+export function interop<T>(mod: unknown): T {
+  return (isTranspiledModule(mod) ? mod.default : mod) as T;
+}
@@ -0,0 +1,48 @@
+// textlint-filter-rule-allowlist や prh と同じく `/パターン/フラグ` の形式を正規表現として扱う
+const REGEXP_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 文字列または `/パターン/フラグ` 形式のパターンを、テキスト全体を検索する正規表現にする。
+ * 正規表現として正しくなければ例外を投げる
+ */
+export function compilePattern(pattern: string): RegExp {
+  const match = REGEXP_PATTERN.exec(pattern);
+  if (!match) return new RegExp(escapeRegExp(pattern), "g");
+
+  const [, source, flags] = match;
+  return new RegExp(source, flags.includes("g") ? flags : `${flags}g`);
+}
+
+/**
+ * 文字列そのものに一致するパターンを返す。`/パターン/フラグ` の形式に見える文字列は、
+ * 正規表現として読まれないようにエスケープした正規表現のパターンにする
+ */
+export function literalPattern(text: string): string {
+  return REGEXP_PATTERN.test(text) ? `/${escapeRegExp(text)}/` : text;
+}
+
+/**
+ * `$&`・`$1`・`$<name>` を一致した文字列に置き換える（String.prototype.replace の置換パターンと同じ書き方）。
+ * 該当するグループがない参照はそのまま残す
+ */
+export function expandTemplate(
+  template: string,
+  match: RegExpMatchArray
+): string {
+  return template.replace(
+    /\$(\$|&|\d{1,2}|<([^>]+)>)/g,
+    (reference, token: string, name?: string) => {
+      if (token === "$") return "$";
+      if (token === "&") return match[0];
+      if (name !== undefined) return match.groups?.[name] ?? reference;
+      const index = Number(token);
+      return index > 0 && index < match.length
+        ? (match[index] ?? "")
+        : reference;
+    }
+  );
+}
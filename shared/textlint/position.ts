@@ -0,0 +1,86 @@
+import type { TextlintMessage, TextlintPosition } from "./types";
+
+/** 文字インデックスから1始まりの行・列を求める関数を作る */
+export function createPositionResolver(
+  text: string
+): (index: number) => TextlintPosition {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  return index => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: index - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * 指摘の位置を `delta` 文字ずらす。行・列は移動後のテキストの `toPosition` で求め直す
+ */
+export function shiftMessage(
+  message: TextlintMessage,
+  delta: number,
+  toPosition: (index: number) => TextlintPosition
+): TextlintMessage {
+  const range: [number, number] = [
+    message.range[0] + delta,
+    message.range[1] + delta,
+  ];
+  const loc = { start: toPosition(range[0]), end: toPosition(range[1]) };
+  return {
+    ...message,
+    range,
+    loc,
+    line: loc.start.line,
+    column: loc.start.column,
+    ...(message.fix && {
+      fix: {
+        ...message.fix,
+        range: [message.fix.range[0] + delta, message.fix.range[1] + delta],
+      },
+    }),
+  };
+}
+
+/**
+ * `oldText` に対する指摘を、編集後の `newText` の位置に合わせて移動する。
+ * 変更箇所より前の指摘はそのまま、後ろの指摘は文字数の差だけずらし、
+ * 変更箇所に重なる指摘は位置が分からなくなるため取り除く
+ */
+export function rebaseMessages(
+  oldText: string,
+  newText: string,
+  messages: TextlintMessage[]
+): TextlintMessage[] {
+  if (oldText === newText) return messages;
+
+  const maxCommon = Math.min(oldText.length, newText.length);
+  let prefix = 0;
+  while (prefix < maxCommon && oldText[prefix] === newText[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    oldText[oldText.length - 1 - suffix] ===
+      newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const changedEnd = oldText.length - suffix;
+  const delta = newText.length - oldText.length;
+  const toPosition = createPositionResolver(newText);
+
+  return messages.flatMap(message => {
+    const [start, end] = message.range;
+    if (end <= prefix) return [message];
+    if (start < changedEnd) return [];
+    return [shiftMessage(message, delta, toPosition)];
+  });
+}
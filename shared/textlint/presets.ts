@@ -0,0 +1,62 @@
+import type {
+  TextlintKernelPlugin,
+  TextlintKernelRule,
+} from "@textlint/kernel";
+import type { TextlintRuleModule } from "@textlint/types";
+import markdownPlugin from "@textlint/textlint-plugin-markdown";
+import textPlugin from "@textlint/textlint-plugin-text";
+import aiWritingPreset from "@textlint-ja/textlint-rule-preset-ai-writing";
+import jaTechnicalWritingPreset from "textlint-rule-preset-ja-technical-writing";
+import { normalizeName } from "./catalog";
+import { interop } from "./interop";
+import type { TextlintConfig, TextlintRuleConfig } from "./types";
+
+export interface TextlintRulePreset {
+  rules: Record<string, TextlintRuleModule>;
+  rulesConfig: Record<string, TextlintRuleConfig>;
+}
+
+const PRESETS: Record<string, TextlintRulePreset> = {
+  "preset-ja-technical-writing": interop(jaTechnicalWritingPreset),
+  "@textlint-ja/preset-ai-writing": interop(aiWritingPreset),
+};
+
+const PLUGINS: Record<string, TextlintKernelPlugin["plugin"]> = {
+  "@textlint/markdown": interop(markdownPlugin),
+  "@textlint/text": interop(textPlugin),
+};
+
+export function resolvePlugins(config: TextlintConfig): TextlintKernelPlugin[] {
+  const plugins = config.plugins ?? {
+    "@textlint/markdown": true,
+    "@textlint/text": true,
+  };
+
+  return Object.entries(plugins).flatMap(([name, options]) => {
+    const plugin = PLUGINS[normalizeName(name, "textlint-plugin")];
+    if (!plugin || options === false) return [];
+    return [{ pluginId: name, plugin, options }];
+  });
+}
+
+/**
+ * プリセットの既定設定（rulesConfig）に `.textlintrc.json` の設定を重ねて、
+ * カーネルに渡すルール一覧を作る。ruleIdはプリセット名を含まない短い形式にそろえる
+ */
+export function resolveRules(config: TextlintConfig): TextlintKernelRule[] {
+  return Object.entries(config.rules ?? {}).flatMap(([name, presetConfig]) => {
+    const preset = PRESETS[normalizeName(name, "textlint-rule")];
+    if (!preset || presetConfig === false) return [];
+
+    const rulesConfig: Record<string, TextlintRuleConfig> = {
+      ...preset.rulesConfig,
+      ...(typeof presetConfig === "object" ? presetConfig : {}),
+    };
+
+    return Object.entries(preset.rules).flatMap(([ruleId, rule]) => {
+      const options = rulesConfig[ruleId] ?? true;
+      if (options === false) return [];
+      return [{ ruleId, rule, options }];
+    });
+  });
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { RuleOptions } from "./rule-options";
+import { applyRuleOptions } from "./rule-options";
+import type { SeverityName } from "./severity";
+import { applyRuleToggles, applySeverities } from "./textlintrc";
+import type {
+  AllowlistEntry,
+  CustomRule,
+  DictionaryEntry,
+  TextlintConfig,
+} from "./types";
+
+/** プロファイルごとに保存するルール設定 */
+export interface RuleSettings {
+  /** `.textlintrc.json` 相当の設定（読み込んだファイル、または組み込みの設定） */
+  config: TextlintConfig;
+  /** 画面で切り替えたルールの有効・無効。ここにないルールは config に従う */
+  enabled: Record<string, boolean>;
+  /** 画面で編集したルールオプション。ここにないルールは config に従う */
+  options: Record<string, RuleOptions>;
+  /** 画面で変更したルールの重要度。ここにないルールは config に従う */
+  severity: Record<string, SeverityName>;
+  /** 指摘しない語 */
+  allowlist: AllowlistEntry[];
+  /** 表記ゆれ辞書 */
+  dictionary: DictionaryEntry[];
+  /** 独自ルール。有効・無効と重要度の変更は組み込みのルールと同じく enabled・severity に持つ */
+  customRules: CustomRule[];
+}
+
+const severitySchema = z.enum(["error", "warning", "info"]);
+
+export const ruleSettingsSchema = z.object({
+  config: z.record(z.string(), z.unknown()),
+  enabled: z.record(z.string(), z.boolean()),
+  options: z.record(z.string(), z.record(z.string(), z.unknown())),
+  severity: z.record(z.string(), severitySchema),
+  allowlist: z.array(
+    z.object({ pattern: z.string(), ruleIds: z.array(z.string()) })
+  ),
+  dictionary: z.array(
+    z.object({ expected: z.string(), patterns: z.array(z.string()) })
+  ),
+  customRules: z.array(
+    z.object({
+      id: z.string(),
+      pattern: z.string(),
+      message: z.string(),
+      severity: severitySchema,
+      replacement: z.string().optional(),
+    })
+  ),
+});
+
+/** ルール設定からチェックに渡す値を求めたもの */
+export interface ResolvedRuleSettings {
+  /** 画面での変更を反映した `.textlintrc.json` 相当の設定 */
+  config: TextlintConfig;
+  allowlist: AllowlistEntry[];
+  dictionary: DictionaryEntry[];
+  /** 無効な独自ルールを除き、重要度の変更を反映したもの */
+  customRules: CustomRule[];
+}
+
+/** 独自ルールの現在の重要度。無効なら "off" */
+export function customRuleSeverity(
+  settings: RuleSettings,
+  rule: CustomRule
+): SeverityName | "off" {
+  if (settings.enabled[rule.id] === false) return "off";
+  return settings.severity[rule.id] ?? rule.severity;
+}
+
+/**
+ * ルール設定を、チェックに渡す設定・許可リスト・辞書・独自ルールにする。
+ * ブラウザの画面とCLIで同じ結果になるよう、どちらもこの関数を通す
+ */
+export function resolveRuleSettings(
+  settings: RuleSettings
+): ResolvedRuleSettings {
+  return {
+    config: applySeverities(
+      applyRuleOptions(
+        applyRuleToggles(settings.config, settings.enabled),
+        settings.options
+      ),
+      settings.severity
+    ),
+    allowlist: settings.allowlist,
+    dictionary: settings.dictionary,
+    customRules: settings.customRules.flatMap(rule => {
+      const severity = customRuleSeverity(settings, rule);
+      return severity === "off" ? [] : [{ ...rule, severity }];
+    }),
+  };
+}
+
+// プロファイルファイルの形式のバージョン（localStorage の保存形式とは別に数える）
+const PROFILE_FILE_VERSION = 1;
+
+const profileFileSchema = z.object({
+  version: z.literal(PROFILE_FILE_VERSION),
+  name: z.string(),
+  settings: ruleSettingsSchema,
+});
+
+export interface ProfileFile {
+  name: string;
+  settings: RuleSettings;
+}
+
+/** プロファイルをファイルとして保存できる文字列にする。CLIの `--profile` で読み込める */
+export function serializeProfile(name: string, settings: RuleSettings): string {
+  return `${JSON.stringify(
+    { version: PROFILE_FILE_VERSION, name, settings },
+    null,
+    2
+  )}\n`;
+}
+
+/** 書き出したプロファイルファイルを読み込む。形式が正しくなければ例外を投げる */
+export function parseProfile(source: string): ProfileFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch {
+    throw new Error("JSON形式のプロファイルではありません");
+  }
+
+  const parsed = profileFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `プロファイルの形式が正しくありません（${issue.path.join(".") || "ルート"}: ${issue.message}）`
+    );
+  }
+  const { name, settings } = parsed.data;
+  return { name, settings: settings as RuleSettings };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { createHtmlReport } from "./report";
+import type { TextlintMessage } from "./types";
+
+function message(
+  range: [number, number],
+  overrides: Partial<TextlintMessage> = {}
+): TextlintMessage {
+  return {
+    type: "lint",
+    ruleId: "ja-technical-writing/sentence-length",
+    message: "文が長すぎます",
+    line: 1,
+    column: range[0] + 1,
+    severity: 2,
+    range,
+    loc: {
+      start: { line: 1, column: range[0] + 1 },
+      end: { line: 1, column: range[1] + 1 },
+    },
+    ...overrides,
+  };
+}
+
+function report(text: string, messages: TextlintMessage[]) {
+  return createHtmlReport({
+    documentName: "文書.md",
+    text,
+    messages,
+    generatedAt: new Date(0),
+  });
+}
+
+// 本文の部分だけを取り出す
+function documentHTML(html: string): string {
+  return /<div class="document">([\s\S]*?)<\/div>\n<\/section>/.exec(html)![1];
+}
+
+describe("createHtmlReport", () => {
+  it("colors overlapping ranges with the highest severity", () => {
+    const html = report("あいうえお", [
+      message([0, 3], { severity: 3, message: "情報" }),
+      message([2, 5], { severity: 2, message: "エラー" }),
+      message([1, 4], { severity: 1, message: "警告" }),
+    ]);
+    // 区切られた区間ごとに、その区間を含む指摘のうち最も重要度の高い色になる
+    expect(documentHTML(html)).toBe(
+      '<mark class="info" title="1. 情報">あ</mark>' +
+        '<mark class="warning" title="1. 情報\n2. 警告">い</mark>' +
+        '<mark class="error" title="1. 情報\n2. 警告\n3. エラー">う</mark>' +
+        '<sup class="ref info"><a href="#m1">1</a></sup>' +
+        '<mark class="error" title="2. 警告\n3. エラー">え</mark>' +
+        '<sup class="ref warning"><a href="#m2">2</a></sup>' +
+        '<mark class="error" title="3. エラー">お</mark>' +
+        '<sup class="ref error"><a href="#m3">3</a></sup>'
+    );
+  });
+
+  it("escapes HTML in the text, messages and document name", () => {
+    const text = `<script>alert("x")</script> & 'a'`;
+    const html = createHtmlReport({
+      documentName: "<b>名前</b>",
+      text,
+      messages: [
+        message([0, 8], {
+          message: `"<img onerror=x>"`,
+          fix: { range: [0, 8], text: "<i>" },
+        }),
+      ],
+    });
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("<b>名前");
+    expect(html).not.toContain("<i>");
+    expect(html).toContain("&lt;b&gt;名前&lt;/b&gt; のチェック結果");
+    expect(html).toContain("&quot;&lt;img onerror=x&gt;&quot;");
+    expect(html).toContain("修正案: 「&lt;i&gt;」");
+    expect(documentHTML(html)).toContain(
+      "alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;a&#39;"
+    );
+  });
+
+  it("clamps ranges outside the text", () => {
+    const html = report("あいう", [
+      message([-2, 1], { message: "先頭より前" }),
+      message([2, 10], { message: "末尾より後" }),
+      message([5, 3], { message: "逆の範囲" }),
+    ]);
+    expect(documentHTML(html)).toBe(
+      '<mark class="error" title="1. 先頭より前">あ</mark>' +
+        '<sup class="ref error"><a href="#m1">1</a></sup>' +
+        "い" +
+        '<mark class="error" title="2. 末尾より後">う</mark>' +
+        '<sup class="ref error"><a href="#m2">2</a></sup>' +
+        '<sup class="ref error"><a href="#m3">3</a></sup>'
+    );
+  });
+
+  it("writes only the summary and the text when there are no messages", () => {
+    const html = report("問題のない文です。", []);
+    expect(html).toContain('<p class="empty">指摘はありません。</p>');
+    expect(html).toContain('<span class="count">0</span>');
+    expect(documentHTML(html)).toBe("問題のない文です。");
+    expect(html).not.toContain("指摘の一覧");
+    expect(html).not.toContain("<mark");
+  });
+});
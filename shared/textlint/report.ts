@@ -0,0 +1,252 @@
+import { RULE_CATALOG } from "./catalog";
+import { getErrorContext } from "./context";
+import { SEVERITY_LEVELS, highestSeverity, severityName } from "./severity";
+import type { SeverityName } from "./severity";
+import { summarizeByRule } from "./summary";
+import type { TextlintMessage } from "./types";
+
+export interface ReportOptions {
+  /** 文書の名前。見出しとページのタイトルに使う */
+  documentName: string;
+  /** チェックした文書のテキスト（指摘の range はこのテキストを指す） */
+  text: string;
+  messages: TextlintMessage[];
+  /** 作成日時。省略すると現在の日時 */
+  generatedAt?: Date;
+}
+
+const SEVERITY_LABELS: Record<SeverityName, string> = {
+  error: "エラー",
+  warning: "警告",
+  info: "情報",
+};
+
+const SEVERITY_ORDER: SeverityName[] = ["error", "warning", "info"];
+
+function escapeHTML(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    char =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char]!
+  );
+}
+
+function ruleName(ruleId: string): string | undefined {
+  return RULE_CATALOG.find(rule => rule.id === ruleId)?.name;
+}
+
+// 指摘の番号へのリンク。本文の指摘箇所の後ろに付ける
+function reference(number: number, severity: SeverityName): string {
+  return `<sup class="ref ${severity}"><a href="#m${number}">${number}</a></sup>`;
+}
+
+/**
+ * 文書全体を、指摘箇所に印を付けたHTMLにする。指摘の範囲は重なることがあるため、
+ * 範囲の端で文書を区切り、区間ごとにそこを含む指摘のうち最も重要度の高い色で塗る
+ */
+function renderDocument(text: string, messages: TextlintMessage[]): string {
+  const spans = messages.map((message, index) => {
+    const start = Math.min(Math.max(message.range[0], 0), text.length);
+    const end = Math.min(Math.max(message.range[1], start), text.length);
+    return { start, end, number: index + 1, message };
+  });
+  const boundaries = Array.from(
+    new Set([0, text.length, ...spans.flatMap(span => [span.start, span.end])])
+  ).sort((a, b) => a - b);
+
+  let html = "";
+  for (let i = 0; i < boundaries.length; i++) {
+    const position = boundaries[i];
+    for (const span of spans) {
+      if (span.end === position) {
+        html += reference(span.number, severityName(span.message.severity));
+      }
+    }
+
+    const next = boundaries[i + 1];
+    if (next === undefined) break;
+    const segment = escapeHTML(text.slice(position, next));
+    const covering = spans.filter(
+      span =>
+        span.start <= position && span.end >= next && span.start < span.end
+    );
+    if (covering.length === 0) {
+      html += segment;
+      continue;
+    }
+    const severity = highestSeverity(
+      covering.map(span => span.message.severity)
+    );
+    const title = escapeHTML(
+      covering.map(span => `${span.number}. ${span.message.message}`).join("\n")
+    );
+    html += `<mark class="${severity}" title="${title}">${segment}</mark>`;
+  }
+  return html;
+}
+
+function renderSummary(messages: TextlintMessage[]): string {
+  const totals = SEVERITY_ORDER.map(severity => {
+    const count = messages.filter(
+      message => message.severity === SEVERITY_LEVELS[severity]
+    ).length;
+    return `<div class="total ${severity}"><span class="count">${count}</span><span>${SEVERITY_LABELS[severity]}</span></div>`;
+  }).join("");
+
+  const rules = summarizeByRule(messages);
+  const rows = rules
+    .map(
+      rule => `<tr>
+<td>${escapeHTML(ruleName(rule.ruleId) ?? rule.ruleId)}<div class="rule-id">${escapeHTML(rule.ruleId)}</div></td>
+<td class="number">${rule.errorCount}</td>
+<td class="number">${rule.warningCount}</td>
+<td class="number">${rule.infoCount}</td>
+<td class="number">${rule.count}</td>
+</tr>`
+    )
+    .join("\n");
+
+  return `<section>
+<h2>概要</h2>
+<div class="totals">${totals}</div>
+${
+  rules.length > 0
+    ? `<table>
+<thead><tr><th>ルール</th><th class="number">エラー</th><th class="number">警告</th><th class="number">情報</th><th class="number">合計</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+    : '<p class="empty">指摘はありません。</p>'
+}
+</section>`;
+}
+
+function renderMessages(text: string, messages: TextlintMessage[]): string {
+  if (messages.length === 0) return "";
+  const items = messages
+    .map((message, index) => {
+      const severity = severityName(message.severity);
+      const context = getErrorContext(text, message.range);
+      const name = ruleName(message.ruleId);
+      return `<li id="m${index + 1}" class="message">
+<div class="message-header"><span class="badge ${severity}">${SEVERITY_LABELS[severity]}</span><span class="position">${message.line}行${message.column}列</span><span class="rule-id">${escapeHTML(name ? `${name}（${message.ruleId}）` : message.ruleId)}</span></div>
+<p>${escapeHTML(message.message)}</p>
+${
+  context.error
+    ? `<div class="context">${escapeHTML(context.before)}<mark class="${severity}">${escapeHTML(context.error)}</mark>${escapeHTML(context.after)}</div>`
+    : ""
+}
+${message.fix ? `<p class="fix">修正案: 「${escapeHTML(message.fix.text)}」</p>` : ""}
+</li>`;
+    })
+    .join("\n");
+
+  return `<section class="messages">
+<h2>指摘の一覧</h2>
+<ol>
+${items}
+</ol>
+</section>`;
+}
+
+// 画面と印刷の両方で読みやすいように、外部のファイルを使わずにHTMLの中に持つ
+const STYLE = `
+:root { color-scheme: light; }
+body { font-family: "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif; color: #1f2937; line-height: 1.7; max-width: 60rem; margin: 0 auto; padding: 2rem 1.5rem; }
+header { border-bottom: 2px solid #e5e7eb; margin-bottom: 1.5rem; }
+h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+h2 { font-size: 1.15rem; border-left: 4px solid #6366f1; padding-left: 0.5rem; margin: 2rem 0 1rem; }
+.meta { color: #6b7280; font-size: 0.85rem; }
+.totals { display: flex; gap: 1rem; margin-bottom: 1rem; }
+.total { flex: 1; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem; text-align: center; }
+.total .count { display: block; font-size: 1.5rem; font-weight: bold; }
+.total.error .count { color: #dc2626; }
+.total.warning .count { color: #ca8a04; }
+.total.info .count { color: #2563eb; }
+table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 0.4rem 0.5rem; text-align: left; vertical-align: top; }
+th.number, td.number { text-align: right; width: 4.5rem; }
+.rule-id { color: #6b7280; font-size: 0.8rem; }
+.document { white-space: pre-wrap; word-break: break-word; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1rem 1.25rem; }
+mark { border-radius: 2px; color: inherit; }
+mark.error { background: #fee2e2; border-bottom: 2px solid #dc2626; }
+mark.warning { background: #fef9c3; border-bottom: 2px solid #ca8a04; }
+mark.info { background: #dbeafe; border-bottom: 2px solid #2563eb; }
+.ref { font-size: 0.65rem; font-weight: bold; margin: 0 1px; }
+.ref a { text-decoration: none; }
+.ref.error a { color: #dc2626; }
+.ref.warning a { color: #ca8a04; }
+.ref.info a { color: #2563eb; }
+.messages ol { padding-left: 2rem; }
+.message { margin-bottom: 1rem; }
+.message p { margin: 0.25rem 0; }
+.message-header { display: flex; flex-wrap: wrap; gap: 0.5rem; align-items: center; font-size: 0.85rem; }
+.badge { border-radius: 9999px; padding: 0 0.6rem; color: #fff; font-size: 0.75rem; }
+.badge.error { background: #dc2626; }
+.badge.warning { background: #ca8a04; }
+.badge.info { background: #2563eb; }
+.position { color: #6b7280; }
+.context { background: #f9fafb; border-radius: 0.25rem; padding: 0.4rem 0.6rem; font-size: 0.9rem; word-break: break-all; }
+.fix { color: #047857; font-size: 0.9rem; }
+.empty { color: #6b7280; }
+.print-button { float: right; font: inherit; padding: 0.4rem 1rem; border: 1px solid #d1d5db; border-radius: 0.375rem; background: #fff; cursor: pointer; }
+@page { size: A4; margin: 15mm; }
+@media print {
+  body { max-width: none; padding: 0; font-size: 10.5pt; }
+  .print-button { display: none; }
+  mark, .badge, .total { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h2 { break-after: avoid; }
+  .message, .total, tr { break-inside: avoid; }
+  .messages { break-before: page; }
+}
+`;
+
+/**
+ * チェック結果を、1つのファイルで完結するHTMLのレポートにする。
+ * ルール・重要度ごとの件数、指摘箇所に印を付けた文書全体、前後の文字列を添えた指摘の一覧を含み、
+ * ブラウザの印刷からPDFとして保存できる
+ */
+export function createHtmlReport({
+  documentName,
+  text,
+  messages,
+  generatedAt = new Date(),
+}: ReportOptions): string {
+  const sorted = [...messages].sort(
+    (a, b) => a.range[0] - b.range[0] || a.range[1] - b.range[1]
+  );
+  const title = `${documentName} のチェック結果`;
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<button type="button" class="print-button" onclick="window.print()">印刷・PDFに保存</button>
+<h1>${escapeHTML(title)}</h1>
+<p class="meta">作成日時: ${escapeHTML(generatedAt.toLocaleString("ja-JP"))}・${text.length}文字</p>
+</header>
+<main>
+${renderSummary(sorted)}
+<section>
+<h2>本文</h2>
+<div class="document">${renderDocument(text, sorted)}</div>
+</section>
+${renderMessages(text, sorted)}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,269 @@
+// このファイルは scripts/generate-rule-catalog.ts で生成しています。直接編集しないでください
+import type { RuleCatalogEntry } from "./catalog";
+
+export const RULE_CATALOG: RuleCatalogEntry[] = [
+  {
+    id: "sentence-length",
+    preset: "preset-ja-technical-writing",
+    name: "1文の長さは100文字以下とする",
+    description:
+      "長過ぎる文は読みにくさに繋がるため、適切な長さで文を句点（`。`）などで区切ってください。厳しめの設定にしたい場合は`90`文字を推奨しています。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-rule/textlint-rule-sentence-length",
+  },
+  {
+    id: "max-comma",
+    preset: "preset-ja-technical-writing",
+    name: "カンマは1文中に3つまで",
+    description:
+      "カンマ（,）の多用は、文が長くなっている可能性があります。1文が長くなると読みにくなっている可能性があるため適切な長さで文を句点（`。`）などで区切ってください。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-rule/textlint-rule-max-comma",
+  },
+  {
+    id: "max-ten",
+    preset: "preset-ja-technical-writing",
+    name: "読点は1文中に3つまで",
+    description:
+      "読点（、）の多用は、1文が長くなっている可能性があります。1文が長くなると読みにくなっている可能性があるため、適切な長さで文を句点（`。`）などで区切ってください。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-max-ten",
+  },
+  {
+    id: "max-kanji-continuous-len",
+    preset: "preset-ja-technical-writing",
+    name: "連続できる最大の漢字長は6文字まで",
+    description:
+      "漢字同士が連続していると読みにくさにつながります。デフォルトでは連続する漢字は、6文字までとしています。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-max-kanji-continuous-len",
+  },
+  {
+    id: "no-mix-dearu-desumasu",
+    preset: "preset-ja-technical-writing",
+    name: "「ですます調」、「である調」を統一します",
+    description:
+      "文章の「ですます調」、「である調」を統一してください。文体は見出し、本文、箇条書きの中で、それぞれ統一した表記にします。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-no-mix-dearu-desumasu",
+  },
+  {
+    id: "ja-no-mixed-period",
+    preset: "preset-ja-technical-writing",
+    name: "文末の句点記号として「。」を使います",
+    description: "文末には「。」を使い文を区切ります。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-ja-no-mixed-period",
+  },
+  {
+    id: "arabic-kanji-numbers",
+    preset: "preset-ja-technical-writing",
+    name: "漢数字と算用数字を使い分けます",
+    description:
+      "数量を表現し、数を数えられるものは算用数字を使用します。任意の数に置き換えても通用する語句がこれに該当します。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-preset-JTF-style",
+  },
+  {
+    id: "no-doubled-conjunction",
+    preset: "preset-ja-technical-writing",
+    name: "同じ接続詞を連続して使用しない",
+    description:
+      "「しかし、〜。しかし、〜」のように同じ接続詞が連続すると、文章が読みにくくなります。同じ接続詞が連続して使用されていないかをチェックします。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-no-doubled-conjunction",
+  },
+  {
+    id: "no-doubled-conjunctive-particle-ga",
+    preset: "preset-ja-technical-writing",
+    name: "逆接の接続助詞「が」を連続して使用しない",
+    description:
+      "逆接の接続助詞「が」は、特に否定の意味ではなくても安易に使われてしまいがちです。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-no-doubled-conjunctive-particle-ga",
+  },
+  {
+    id: "no-double-negative-ja",
+    preset: "preset-ja-technical-writing",
+    name: "二重否定は使用しない",
+    description:
+      "[二重否定](https://ja.wikipedia.org/wiki/%E4%BA%8C%E9%87%8D%E5%90%A6%E5%AE%9A_(%E8%A8%80%E8%AA%9E%E5%AD%A6))は文章を読みにくくするため、使用しないようにします。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-no-double-negative-ja",
+  },
+  {
+    id: "no-doubled-joshi",
+    preset: "preset-ja-technical-writing",
+    name: "同じ助詞を連続して使用しない",
+    description:
+      "文中で同じ助詞が連続すると文章が読みにくくなります。1つの文中に同じ助詞が連続して出てくるのをチェックします。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-no-doubled-joshi",
+  },
+  {
+    id: "no-dropping-the-ra",
+    preset: "preset-ja-technical-writing",
+    name: "ら抜き言葉を使用しない",
+    description:
+      "ら抜き言葉は話し言葉のため、書き言葉である文章では使用しないようにします。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-no-dropping-the-ra",
+  },
+  {
+    id: "no-nfd",
+    preset: "preset-ja-technical-writing",
+    name: "UTF8-MAC 濁点を使用しない",
+    description:
+      "文章中にUTF8-MAC 濁点は使用しないようにします。ファイルからコピー＆ペーストした文字である場合があります。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-no-nfd",
+  },
+  {
+    id: "no-exclamation-question-mark",
+    preset: "preset-ja-technical-writing",
+    name: "感嘆符!！、疑問符?？を使用しない",
+    description:
+      "技術文書では、感嘆符（!！）、疑問符（?？）は基本的には使用しないでください。特定の感嘆符や疑問符を使用する場合は、オプションで許可するか、コメントなどで例外として無視してください。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-rule/textlint-rule-no-exclamation-question-mark",
+  },
+  {
+    id: "no-hankaku-kana",
+    preset: "preset-ja-technical-writing",
+    name: "半角カナを使用しない",
+    description: "全角カタカナを使用してください。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-no-hankaku-kana",
+  },
+  {
+    id: "no-invalid-control-character",
+    preset: "preset-ja-technical-writing",
+    name: "不必要な制御文字を使用しない",
+    description:
+      "改行(`\\n`)やタブ(`\\t`)以外の制御文字が文章に入るのを防止します。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-rule/textlint-rule-no-invalid-control-character",
+  },
+  {
+    id: "ja-no-weak-phrase",
+    preset: "preset-ja-technical-writing",
+    name: "弱い日本語表現の利用を使用しない",
+    description:
+      "`〜かもしれない` や `〜と思います` 等の弱い表現を使用しないでください。技術文書で曖昧な表現を避けるようにするためのルールです。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-ja-no-weak-phrase",
+  },
+  {
+    id: "ja-no-successive-word",
+    preset: "preset-ja-technical-writing",
+    name: "同一の単語を間違えて連続しているのをチェックする",
+    description:
+      "同一の単語(形態素解析したtoken)が連続している場合は、入力ミスや誤字の可能性があります。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-ja-no-successive-word",
+  },
+  {
+    id: "ja-no-abusage",
+    preset: "preset-ja-technical-writing",
+    name: "よくある日本語の誤用をチェックする",
+    description:
+      "日本語や技術表現における漢字の誤用などをチェックするルールです。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-ja/textlint-rule-ja-no-abusage",
+  },
+  {
+    id: "ja-no-redundant-expression",
+    preset: "preset-ja-technical-writing",
+    name: "冗長な表現をチェックする",
+    description:
+      '冗長な表現とは、その文から省いても意味が通じるような表現を示しています。`"することができる"`という冗長な表現を`"できる"`にするといったルールです。',
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-ja-no-redundant-expression",
+  },
+  {
+    id: "ja-unnatural-alphabet",
+    preset: "preset-ja-technical-writing",
+    name: "入力ミスで発生する不自然なアルファベットをチェックする",
+    description:
+      "`リイr−ス` などIMEの入力ミスが日本語中に混じった不自然なアルファベットをチェックします。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-ja-unnatural-alphabet",
+  },
+  {
+    id: "no-unmatched-pair",
+    preset: "preset-ja-technical-writing",
+    name: "対になっていない括弧をチェックする",
+    description:
+      "1文中で対になっていない括弧チェックします。`(`に対応する`)`がない場合や、`[`に対応する`]`がない場合などをチェックします。",
+    severity: "error",
+    docsUrl: "https://github.com/textlint-rule/textlint-rule-no-unmatched-pair",
+  },
+  {
+    id: "no-zero-width-spaces",
+    preset: "preset-ja-technical-writing",
+    name: "不必要なゼロ幅スペースを使用しない",
+    description: "ゼロ幅スペース（`\\u200b`）が文章に入るのを防止します。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-rule/textlint-rule-no-zero-width-spaces",
+  },
+  {
+    id: "no-ai-list-formatting",
+    preset: "@textlint-ja/preset-ai-writing",
+    name: "AI的なリスト書式",
+    description:
+      "リストアイテムで機械的な印象を与える可能性のある記述パターンを検出します。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-preset-ai-writing#no-ai-list-formatting",
+  },
+  {
+    id: "no-ai-hype-expressions",
+    preset: "@textlint-ja/preset-ai-writing",
+    name: "AI的な誇張表現",
+    description:
+      "AIライティングで過度に使用されがちな誇張表現やハイプ的な表現を検出します。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-preset-ai-writing#no-ai-hype-expressions",
+  },
+  {
+    id: "no-ai-emphasis-patterns",
+    preset: "@textlint-ja/preset-ai-writing",
+    name: "AI的な強調パターン",
+    description: "AIが機械的に生成しがちな強調パターンを検出します。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-preset-ai-writing#no-ai-emphasis-patterns",
+  },
+  {
+    id: "ai-tech-writing-guideline",
+    preset: "@textlint-ja/preset-ai-writing",
+    name: "技術文書のガイドライン",
+    description:
+      "テクニカルライティングのベストプラクティスに基づいて、文書品質の改善提案を行います。詳細なガイドラインについては [docs/tech-writing-guidelines.md](./docs/tech-writing-guidelines.md) を参照してください。",
+    severity: "info",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-preset-ai-writing#ai-tech-writing-guideline",
+  },
+  {
+    id: "no-ai-colon-continuation",
+    preset: "@textlint-ja/preset-ai-writing",
+    name: "コロンの使用",
+    description:
+      "コロンの直後にブロック要素が続く英語的なパターンを検出します。日本語として自然な表現を促進するルールです。",
+    severity: "error",
+    docsUrl:
+      "https://github.com/textlint-ja/textlint-rule-preset-ai-writing#no-ai-colon-continuation",
+  },
+];
@@ -0,0 +1,167 @@
+import { z } from "zod";
+import type { TextlintConfig } from "./types";
+
+export type RuleOptions = Record<string, unknown>;
+
+interface RuleOptionSchema {
+  /** ルールを含むプリセット（`.textlintrc.json` の rules のキー） */
+  preset: string;
+  /** 各項目の既定値はプリセットの rulesConfig に合わせる */
+  schema: z.ZodObject;
+}
+
+const maxLength = (label: string, value: number) =>
+  z
+    .number({ error: "数値を入力してください" })
+    .int("整数を入力してください")
+    .min(1, "1以上を入力してください")
+    .default(value)
+    .describe(label);
+
+const preferredStyle = (label: string, value: "" | "ですます" | "である") =>
+  z.enum(["", "ですます", "である"]).default(value).describe(label);
+
+/** オプションを編集できるルールと、そのオプションの形式 */
+export const RULE_OPTION_SCHEMAS: Record<string, RuleOptionSchema> = {
+  "sentence-length": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      max: maxLength("1文の最大文字数", 100),
+      skipUrlStringLink: z
+        .boolean()
+        .default(true)
+        .describe("URLだけのリンクを数えない"),
+    }),
+  },
+  "max-comma": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      max: maxLength("1文に使えるカンマの数", 3),
+    }),
+  },
+  "max-ten": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      max: maxLength("1文に使える読点の数", 3),
+      strict: z.boolean().default(false).describe("名詞に挟まれた読点も数える"),
+    }),
+  },
+  "max-kanji-continuous-len": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      max: maxLength("漢字が連続できる最大文字数", 6),
+    }),
+  },
+  "no-mix-dearu-desumasu": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      preferInHeader: preferredStyle("見出しの文体", ""),
+      preferInBody: preferredStyle("本文の文体", "ですます"),
+      preferInList: preferredStyle("箇条書きの文体", "である"),
+      strict: z
+        .boolean()
+        .default(false)
+        .describe("文末以外の敬体・常体も検出する"),
+    }),
+  },
+  "ja-no-mixed-period": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      periodMark: z
+        .enum(["。", "．", "."])
+        .default("。")
+        .describe("文末に使う句点"),
+    }),
+  },
+  "no-doubled-joshi": {
+    preset: "preset-ja-technical-writing",
+    schema: z.object({
+      min_interval: maxLength("助詞の間に必要な最小の語数", 1),
+      strict: z.boolean().default(false).describe("例外を認めずに検出する"),
+    }),
+  },
+};
+
+export type RuleOptionField =
+  | { key: string; label: string; kind: "number"; min?: number }
+  | { key: string; label: string; kind: "boolean" }
+  | { key: string; label: string; kind: "select"; choices: string[] };
+
+/** スキーマの各項目から、フォームに表示する入力欄の種類を求める */
+export function getRuleOptionFields(schema: z.ZodObject): RuleOptionField[] {
+  return Object.entries(schema.shape).flatMap(
+    ([key, field]): RuleOptionField[] => {
+      const label = field.description ?? key;
+      const inner = field instanceof z.ZodDefault ? field.unwrap() : field;
+
+      if (inner instanceof z.ZodNumber) {
+        return [
+          { key, label, kind: "number", min: inner.minValue ?? undefined },
+        ];
+      }
+      if (inner instanceof z.ZodBoolean) {
+        return [{ key, label, kind: "boolean" }];
+      }
+      if (inner instanceof z.ZodEnum) {
+        return [
+          { key, label, kind: "select", choices: inner.options.map(String) },
+        ];
+      }
+      return [];
+    }
+  );
+}
+
+/**
+ * `.textlintrc.json` と画面で編集した値を重ねた、ルールの現在のオプションを返す。
+ * 設定が `true` や未指定の項目はスキーマの既定値で埋める
+ */
+export function resolveRuleOptions(
+  config: TextlintConfig,
+  ruleId: string,
+  edited?: RuleOptions
+): RuleOptions {
+  const { preset, schema } = RULE_OPTION_SCHEMAS[ruleId];
+  const presetConfig = config.rules?.[preset];
+  const configured =
+    typeof presetConfig === "object" ? presetConfig[ruleId] : undefined;
+
+  const result = schema.safeParse({
+    ...(typeof configured === "object" ? configured : {}),
+    ...edited,
+  });
+  return result.success ? result.data : schema.parse({});
+}
+
+/** 画面で編集したルールオプションを `.textlintrc.json` の設定に反映する */
+export function applyRuleOptions(
+  config: TextlintConfig,
+  edited: Record<string, RuleOptions>
+): TextlintConfig {
+  const rules = { ...config.rules };
+
+  for (const [ruleId, options] of Object.entries(edited)) {
+    const entry = RULE_OPTION_SCHEMAS[ruleId];
+    if (!entry) continue;
+
+    const presetConfig = rules[entry.preset];
+    // プリセットやルール自体が無効になっている場合は有効にしない
+    if (presetConfig === false || presetConfig === undefined) continue;
+    if (typeof presetConfig === "object" && presetConfig[ruleId] === false) {
+      continue;
+    }
+
+    // severity などスキーマにない設定はそのまま残す
+    const current =
+      typeof presetConfig === "object" ? presetConfig[ruleId] : undefined;
+    rules[entry.preset] = {
+      ...(typeof presetConfig === "object" ? presetConfig : {}),
+      [ruleId]: {
+        ...(typeof current === "object" ? current : {}),
+        ...resolveRuleOptions(config, ruleId, options),
+      },
+    };
+  }
+
+  return { ...config, rules };
+}
@@ -0,0 +1,42 @@
+/** `.textlintrc.json` の `"severity"` に書ける重要度 */
+export type SeverityName = "error" | "warning" | "info";
+
+/** 重要度の名前とメッセージの `severity` の値の対応（textlintの TextlintRuleSeverityLevelKeys と同じ） */
+export const SEVERITY_LEVELS: Record<SeverityName, number> = {
+  warning: 1,
+  error: 2,
+  info: 3,
+};
+
+export function severityName(level: number): SeverityName {
+  if (level === SEVERITY_LEVELS.warning) return "warning";
+  if (level === SEVERITY_LEVELS.info) return "info";
+  return "error";
+}
+
+// 値の大小が重要度の順になっていないため、比較用の順位を別に持つ
+const SEVERITY_RANKS: Record<SeverityName, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+};
+
+/** メッセージの中でもっとも重要度の高いものの重要度を返す */
+export function highestSeverity(levels: number[]): SeverityName {
+  return levels
+    .map(severityName)
+    .reduce<SeverityName>(
+      (highest, name) =>
+        SEVERITY_RANKS[name] > SEVERITY_RANKS[highest] ? name : highest,
+      "info"
+    );
+}
+
+/** ルール設定の `"severity"` を読み取る。指定がなければ undefined */
+export function configuredSeverity(options: unknown): SeverityName | undefined {
+  if (typeof options !== "object" || options === null) return undefined;
+  const { severity } = options as { severity?: unknown };
+  return severity === "error" || severity === "warning" || severity === "info"
+    ? severity
+    : undefined;
+}
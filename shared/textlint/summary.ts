@@ -0,0 +1,42 @@
+import { severityName } from "./severity";
+import type { TextlintMessage } from "./types";
+
+/** ルールごとの指摘の件数 */
+export interface RuleSummary {
+  ruleId: string;
+  count: number;
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+}
+
+const COUNT_KEYS = {
+  error: "errorCount",
+  warning: "warningCount",
+  info: "infoCount",
+} as const;
+
+/** 指摘をルールごとに数える。件数の多い順、同じ件数ならルールIDの順に並べる */
+export function summarizeByRule(
+  messages: Pick<TextlintMessage, "ruleId" | "severity">[]
+): RuleSummary[] {
+  const summaries = new Map<string, RuleSummary>();
+  for (const { ruleId, severity } of messages) {
+    let summary = summaries.get(ruleId);
+    if (!summary) {
+      summary = {
+        ruleId,
+        count: 0,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0,
+      };
+      summaries.set(ruleId, summary);
+    }
+    summary.count++;
+    summary[COUNT_KEYS[severityName(severity)]]++;
+  }
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.count - a.count || a.ruleId.localeCompare(b.ruleId)
+  );
+}
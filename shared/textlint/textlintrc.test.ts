@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { importTextlintrc, parseTextlintrc } from "./textlintrc";
+
+describe("parseTextlintrc", () => {
+  it("keeps built-in presets and plugins under their short names", () => {
+    const { config, unsupported } = parseTextlintrc(
+      JSON.stringify({
+        plugins: ["markdown", "textlint-plugin-html"],
+        rules: {
+          "textlint-rule-preset-ja-technical-writing": {
+            "sentence-length": { max: 80 },
+            "unknown-rule": true,
+          },
+          "@textlint-ja/preset-ai-writing": false,
+          "textlint-rule-prh": { rulePaths: ["prh.yml"] },
+        },
+      })
+    );
+    expect(config).toEqual({
+      plugins: { "@textlint/markdown": true },
+      rules: {
+        "preset-ja-technical-writing": { "sentence-length": { max: 80 } },
+        "@textlint-ja/preset-ai-writing": false,
+      },
+    });
+    expect(unsupported).toEqual([
+      "plugin: textlint-plugin-html",
+      "textlint-rule-preset-ja-technical-writing/unknown-rule",
+      "textlint-rule-prh",
+    ]);
+  });
+
+  it("uses both plugins when none are specified", () => {
+    expect(parseTextlintrc("{}").config).toEqual({ rules: {} });
+  });
+
+  it("rejects text that is not JSON", () => {
+    expect(() => parseTextlintrc("{ rules: ")).toThrow(
+      "JSON形式の .textlintrc ではありません"
+    );
+  });
+
+  it("rejects JSON of the wrong shape with the path of the problem", () => {
+    expect(() => importTextlintrc([])).toThrow(
+      /^\.textlintrc の形式が正しくありません（ルート: /
+    );
+    expect(() => importTextlintrc({ rules: "preset-japanese" })).toThrow(
+      /^\.textlintrc の形式が正しくありません（rules: /
+    );
+    expect(() => importTextlintrc({ plugins: { markdown: "yes" } })).toThrow(
+      /^\.textlintrc の形式が正しくありません（plugins: /
+    );
+  });
+
+  it("rejects rule options of a preset that are not objects", () => {
+    expect(() =>
+      importTextlintrc({
+        rules: { "preset-ja-technical-writing": { "sentence-length": 100 } },
+      })
+    ).toThrow(
+      /^\.textlintrc の形式が正しくありません（rules\.preset-ja-technical-writing\.sentence-length: /
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import { z } from "zod";
+import {
+  PLUGIN_NAMES,
+  PRESET_RULE_IDS,
+  RULE_CATALOG,
+  findPreset,
+  normalizeName,
+} from "./catalog";
+import { configuredSeverity, type SeverityName } from "./severity";
+import type { TextlintConfig, TextlintRuleConfig } from "./types";
+
+const optionsSchema = z.record(z.string(), z.unknown());
+
+const textlintrcSchema = z.object({
+  plugins: z
+    .union([
+      z.record(z.string(), z.union([z.boolean(), optionsSchema])),
+      // `"plugins": ["markdown"]` の配列形式も受け付ける
+      z.array(z.string()),
+    ])
+    .optional(),
+  // プリセット以外のルールのオプションは形式が決まらないため、ここでは検証しない
+  rules: z.record(z.string(), z.union([z.boolean(), optionsSchema])).optional(),
+});
+
+const presetConfigSchema = z.record(
+  z.string(),
+  z.union([z.boolean(), optionsSchema])
+);
+
+// `@textlint/markdown`・`textlint-plugin-markdown`・`markdown` を同じプラグインとして扱う
+function pluginShortName(name: string): string {
+  return normalizeName(name.replace(/^@textlint\//, ""), "textlint-plugin");
+}
+
+export interface ImportedTextlintrc {
+  config: TextlintConfig;
+  /** Webチェッカーが対応していないため読み飛ばしたプリセット・ルール・プラグイン */
+  unsupported: string[];
+}
+
+/**
+ * `.textlintrc.json` の内容を読み込み、組み込みのプリセットとプラグインだけを残した設定にする。
+ * プリセット名やプラグイン名は画面で扱う短い形式にそろえる
+ */
+export function parseTextlintrc(source: string): ImportedTextlintrc {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch {
+    throw new Error("JSON形式の .textlintrc ではありません");
+  }
+  return importTextlintrc(json);
+}
+
+/** JSONとして読み込み済みの `.textlintrc` を parseTextlintrc と同じく取り込む（APIのリクエストなど） */
+export function importTextlintrc(json: unknown): ImportedTextlintrc {
+  const parsed = textlintrcSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `.textlintrc の形式が正しくありません（${issue.path.join(".") || "ルート"}: ${issue.message}）`
+    );
+  }
+
+  const unsupported: string[] = [];
+  const config: TextlintConfig = { plugins: {}, rules: {} };
+
+  const plugins = Array.isArray(parsed.data.plugins)
+    ? Object.fromEntries(parsed.data.plugins.map(name => [name, true]))
+    : parsed.data.plugins;
+  for (const [name, options] of Object.entries(plugins ?? {})) {
+    const pluginName = PLUGIN_NAMES.find(
+      known => pluginShortName(known) === pluginShortName(name)
+    );
+    if (pluginName) config.plugins![pluginName] = options;
+    else unsupported.push(`plugin: ${name}`);
+  }
+  // プラグインの指定がなければ両方を使う（resolvePlugins と同じ既定）
+  if (!parsed.data.plugins) delete config.plugins;
+
+  for (const [name, presetConfig] of Object.entries(parsed.data.rules ?? {})) {
+    const presetName = Object.keys(PRESET_RULE_IDS).find(
+      known => known === normalizeName(name, "textlint-rule")
+    );
+    if (!presetName) {
+      unsupported.push(name);
+      continue;
+    }
+
+    if (typeof presetConfig === "boolean") {
+      config.rules![presetName] = presetConfig;
+      continue;
+    }
+
+    const presetRules = presetConfigSchema.safeParse(presetConfig);
+    if (!presetRules.success) {
+      const issue = presetRules.error.issues[0];
+      throw new Error(
+        `.textlintrc の形式が正しくありません（rules.${name}.${issue.path.join(".")}: ${issue.message}）`
+      );
+    }
+
+    const rulesConfig: Record<string, TextlintRuleConfig> = {};
+    for (const [ruleId, options] of Object.entries(presetRules.data)) {
+      if (PRESET_RULE_IDS[presetName].includes(ruleId)) {
+        rulesConfig[ruleId] = options;
+      } else {
+        unsupported.push(`${name}/${ruleId}`);
+      }
+    }
+    config.rules![presetName] = rulesConfig;
+  }
+
+  return { config, unsupported };
+}
+
+/** 設定を `.textlintrc.json` として保存できる文字列にする */
+export function serializeTextlintrc(config: TextlintConfig): string {
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
+
+/** 設定の上でルールが有効になっているか（プリセットごと無効な場合も含めて判定する） */
+export function isRuleEnabled(config: TextlintConfig, ruleId: string): boolean {
+  const preset = findPreset(ruleId);
+  if (!preset) return false;
+
+  const presetConfig = config.rules?.[preset];
+  if (presetConfig === undefined || presetConfig === false) return false;
+  return typeof presetConfig !== "object" || presetConfig[ruleId] !== false;
+}
+
+/** 画面で切り替えたルールの有効・無効を設定に反映する */
+export function applyRuleToggles(
+  config: TextlintConfig,
+  toggles: Record<string, boolean>
+): TextlintConfig {
+  const rules = { ...config.rules };
+
+  for (const [ruleId, enabled] of Object.entries(toggles)) {
+    const preset = findPreset(ruleId);
+    if (!preset || isRuleEnabled({ rules }, ruleId) === enabled) continue;
+
+    const presetConfig = rules[preset];
+    if (typeof presetConfig === "object" || presetConfig === true) {
+      rules[preset] = {
+        ...(typeof presetConfig === "object" ? presetConfig : {}),
+        [ruleId]: enabled,
+      };
+    } else {
+      // プリセットごと無効なときは、そのルールだけを有効にする
+      rules[preset] = Object.fromEntries(
+        PRESET_RULE_IDS[preset].map(id => [id, id === ruleId])
+      );
+    }
+  }
+
+  return { ...config, rules };
+}
+
+/**
+ * 設定の上でのルールの重要度。`.textlintrc.json` でルールを指定していなければ
+ * プリセットの既定値、`true` やオプションだけの指定ならエラーになる（resolveRules と同じ）
+ */
+export function ruleSeverity(
+  config: TextlintConfig,
+  ruleId: string
+): SeverityName {
+  const presetConfig = config.rules?.[findPreset(ruleId) ?? ""];
+  const configured =
+    typeof presetConfig === "object" ? presetConfig[ruleId] : undefined;
+  if (configured === undefined) {
+    return RULE_CATALOG.find(rule => rule.id === ruleId)?.severity ?? "error";
+  }
+  return configuredSeverity(configured) ?? "error";
+}
+
+/** 画面で変更したルールの重要度を、ルール設定の `"severity"` として反映する */
+export function applySeverities(
+  config: TextlintConfig,
+  severities: Record<string, SeverityName>
+): TextlintConfig {
+  const rules = { ...config.rules };
+
+  for (const [ruleId, severity] of Object.entries(severities)) {
+    const preset = findPreset(ruleId);
+    const presetConfig = preset ? rules[preset] : undefined;
+    // 無効なプリセット・ルールは有効にしない
+    if (!preset || presetConfig === undefined || presetConfig === false) {
+      continue;
+    }
+
+    const options =
+      typeof presetConfig === "object" ? presetConfig[ruleId] : undefined;
+    if (options === false) continue;
+    rules[preset] = {
+      ...(typeof presetConfig === "object" ? presetConfig : {}),
+      [ruleId]: { ...(typeof options === "object" ? options : {}), severity },
+    };
+  }
+
+  return { ...config, rules };
+}
@@ -0,0 +1,101 @@
+export interface TextlintPosition {
+  /** 1始まりの行番号 */
+  line: number;
+  /** 1始まりの列番号 */
+  column: number;
+}
+
+/** range の文字列を text に置き換える修正内容 */
+export interface TextlintFix {
+  range: [number, number];
+  text: string;
+}
+
+export interface TextlintMessage {
+  type: string;
+  ruleId: string;
+  message: string;
+  line: number;
+  column: number;
+  /** 1: 警告、2: エラー、3: 情報 */
+  severity: number;
+  /** 指摘箇所の文字インデックス範囲（0始まり、終端は含まない） */
+  range: [number, number];
+  loc: {
+    start: TextlintPosition;
+    end: TextlintPosition;
+  };
+  /** 指摘箇所の原文（range で切り出した文字列） */
+  matchedText: string;
+  /** ルールが自動修正に対応している場合の修正内容 */
+  fix?: TextlintFix;
+}
+
+/** 無効化コメント（`<!-- textlint-disable -->`）ごとの、取り除いた指摘の件数 */
+export interface LintSuppression {
+  /** コメントの内容（例: `textlint-disable no-doubled-joshi`） */
+  directive: string;
+  /** コメントのある行（1始まり） */
+  line: number;
+  count: number;
+}
+
+/** 指摘しない語（許可リストの項目） */
+export interface AllowlistEntry {
+  /** 許可する語。`/パターン/フラグ` の形式なら正規表現として扱う */
+  pattern: string;
+  /** 対象のルール。空ならすべてのルール */
+  ruleIds: string[];
+}
+
+/** 表記ゆれ辞書の項目（prhの辞書形式の rules の要素） */
+export interface DictionaryEntry {
+  /** 期待する表記。正規表現のパターンでは `$1` などで一致した部分を参照できる */
+  expected: string;
+  /** 表記ゆれとみなす表記。`/パターン/フラグ` の形式なら正規表現として扱う。空なら expected の大文字・小文字、全角・半角違い */
+  patterns: string[];
+}
+
+/** 設定ダイアログで定義する独自ルール */
+export interface CustomRule {
+  /** ルールID。組み込みのルールと同じく無効化コメントや許可リストで指定できる */
+  id: string;
+  /** 検出する表記。`/パターン/フラグ` の形式なら正規表現として扱う */
+  pattern: string;
+  /** 指摘のメッセージ。`$&` で一致した文字列、`$1` や `$<name>` でグループを参照できる */
+  message: string;
+  /** 既定の重要度 */
+  severity: "error" | "warning" | "info";
+  /** 置き換え後の表記。指定すると自動修正として提案する（`message` と同じ参照が使える） */
+  replacement?: string;
+}
+
+export interface LintResult {
+  /** 無効化コメントと許可リストで取り除いた後の指摘 */
+  messages: TextlintMessage[];
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  suppressions: LintSuppression[];
+  /** 許可リストで取り除いた指摘の数 */
+  allowedCount: number;
+}
+
+/** 入力文書の形式。Markdownは @textlint/markdown でASTに変換してからチェックする */
+export type DocumentFormat = "text" | "markdown";
+
+/** 文書形式ごとに、どのプラグインで解析するかを決める拡張子 */
+export const DOCUMENT_EXTENSIONS: Record<DocumentFormat, string> = {
+  text: ".txt",
+  markdown: ".md",
+};
+
+export type TextlintRuleConfig = boolean | Record<string, unknown>;
+
+/**
+ * `.textlintrc.json` の形式。ブラウザとサーバーで同じ設定を読み込むために使う
+ */
+export interface TextlintConfig {
+  plugins?: Record<string, boolean | Record<string, unknown>>;
+  rules?: Record<string, boolean | Record<string, TextlintRuleConfig>>;
+}
@@ -3,19 +3,64 @@ import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
 import fs from "node:fs";
 import path from "path";
-import { defineConfig } from "vite";
+import { defineConfig, type Connect, type Plugin } from "vite";
 import { vitePluginManusRuntime } from "vite-plugin-manus-runtime";
 
-const plugins = [react(), tailwindcss(), jsxLocPlugin(), vitePluginManusRuntime()];
+// 開発サーバーは .gz のファイルに Content-Encoding: gzip を付けて返すため、ブラウザが展開してしまい
+// kuromojiが辞書（client/public/dict/*.dat.gz）を読み込めない。圧縮されたまま返すようにする
+const serveCompressedDictionary: Connect.NextHandleFunction = (req, res, next) => {
+  if (req.url?.endsWith(".dat.gz")) {
+    const writeHead = res.writeHead.bind(res);
+    res.writeHead = ((...args: Parameters<typeof res.writeHead>) => {
+      // setHeader で先に設定された場合と、writeHead に渡された場合の両方から取り除く
+      res.removeHeader("Content-Encoding");
+      for (const headers of args) {
+        if (typeof headers !== "object" || headers === null || Array.isArray(headers)) continue;
+        for (const name of Object.keys(headers)) {
+          if (name.toLowerCase() === "content-encoding") delete headers[name];
+        }
+      }
+      return writeHead(...args);
+    }) as typeof res.writeHead;
+  }
+  next();
+};
+
+function kuromojiDictionary(): Plugin {
+  return {
+    name: "kuromoji-dictionary",
+    configureServer: server => {
+      server.middlewares.use(serveCompressedDictionary);
+    },
+    configurePreviewServer: server => {
+      server.middlewares.use(serveCompressedDictionary);
+    },
+  };
+}
+
+const plugins = [react(), tailwindcss(), jsxLocPlugin(), vitePluginManusRuntime(), kuromojiDictionary()];
 
 export default defineConfig({
   base: '/textlint-web-checker/', // GitHub Pages用のベースパス
   plugins,
+  define: {
+    // ドットファイルは server.fs.deny で配信できないため、ビルド時に設定内容を埋め込む
+    __TEXTLINT_CONFIG__: fs.readFileSync(
+      path.resolve(import.meta.dirname, ".textlintrc.json"),
+      "utf-8"
+    ),
+  },
   resolve: {
     alias: {
       "@": path.resolve(import.meta.dirname, "client", "src"),
       "@shared": path.resolve(import.meta.dirname, "shared"),
       "@assets": path.resolve(import.meta.dirname, "attached_assets"),
+      // textlintのルール群が参照するNode.js組み込みモジュールをブラウザ向け実装に置き換える
+      path: "path-browserify",
+      "node:path": "path-browserify",
+      os: "os-browserify/browser",
+      "node:os": "os-browserify/browser",
+      "node:assert": "assert",
     },
   },
   envDir: path.resolve(import.meta.dirname),
@@ -0,0 +1,22 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// vite.config.ts は client/ をルートにしたブラウザ向けの設定のため、テストは別に設定する
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: [
+      "shared/**/*.test.ts",
+      "server/**/*.test.ts",
+      "client/src/**/*.test.ts",
+    ],
+    environment: "node",
+    // 形態素解析の辞書の読み込みに時間がかかるため
+    testTimeout: 30_000,
+  },
+});